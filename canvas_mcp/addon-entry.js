@@ -25,6 +25,17 @@ function setEnvFromOptions(opts = {}) {
   if (typeof opts.mcp_auth_token === 'string' && opts.mcp_auth_token) {
     process.env.MCP_AUTH_TOKEN = opts.mcp_auth_token;
   }
+  if (typeof opts.ics_auth_token === 'string' && opts.ics_auth_token) {
+    process.env.ICS_AUTH_TOKEN = opts.ics_auth_token;
+  }
+  if (typeof opts.ics_reminder_minutes === 'string') {
+    process.env.ICS_REMINDER_MINUTES = opts.ics_reminder_minutes;
+  }
+}
+
+// Persist snapshots in the add-on's /data volume
+if (!process.env.DATA_DIR) {
+  process.env.DATA_DIR = '/data';
 }
 
 function startServer() {
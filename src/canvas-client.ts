@@ -2,23 +2,354 @@
  * Canvas API Client with Link header pagination support
  */
 
+import { createHash } from 'crypto';
+import { convertHtml, sliceContent, TextFormat } from './html.js';
+import {
+  applyWhatIf,
+  computeCourseScore,
+  DEFAULT_GRADING_SCHEME,
+  GradeGroup,
+  GradingSchemeEntry,
+  letterGrade,
+  round2,
+  solveRequiredScore,
+} from './grades.js';
+import { ChangeEvent, SnapshotStore } from './snapshot-store.js';
+import { CachedResponse, CacheStats, LoadResult, ResponseCache } from './response-cache.js';
+import { isThrottled, mapSettled, RateLimitState, RequestScheduler } from './request-scheduler.js';
+import { TokenProvider } from './oauth.js';
+
 export interface CanvasConfig {
   baseUrl: string;
-  apiToken: string;
+  /** Personal access token; ignored when tokenProvider is set */
+  apiToken?: string;
+  /** OAuth token source; a 401 asks it to refresh once before the request fails */
+  tokenProvider?: TokenProvider;
   timeoutMs?: number;
+  /** Optional snapshot store; when set, assignment/submission/grade fetches are recorded for what_changed */
+  snapshots?: SnapshotStore;
+  /** Response cache for GET requests (default: enabled) */
+  cacheEnabled?: boolean;
+  /** Maximum cached responses before LRU eviction (default: 500) */
+  cacheMaxEntries?: number;
+  /** Retries for throttled, 5xx and timed-out GETs (default: 3) */
+  maxRetries?: number;
+  /** Overall time budget for one request including retries (default: 30000ms) */
+  retryDeadlineMs?: number;
+  /** Courses fetched in parallel by cross-course tools (default: 4) */
+  concurrency?: number;
+  /** Use Canvas GraphQL for multi-course assignment queries, falling back to REST (default: enabled) */
+  graphqlEnabled?: boolean;
+}
+
+/**
+ * A course that could not be checked by a cross-course tool
+ * course_id is null when a student's or profile's course list itself could not be loaded
+ */
+export interface PartialFailure {
+  course_id: number | null;
+  code: string;
+  /** Set when aggregating across observed students */
+  student_id?: number;
+  /** Set when merging results from several Canvas profiles */
+  profile?: string;
+}
+
+/**
+ * A student linked to an observer (parent) account
+ */
+export interface Observee {
+  id: number;
+  name: string;
+  short_name: string | null;
+}
+
+/**
+ * An active course (list_courses)
+ */
+export interface Course {
+  id: number;
+  name: string;
+  course_code: string;
+  enrollment_state: string;
+}
+
+/**
+ * A course assignment with the user's submission state (list_assignments)
+ */
+export interface CourseAssignment {
+  id: number;
+  name: string;
+  due_at: string | null;
+  unlock_at: string | null;
+  lock_at: string | null;
+  points_possible: number;
+  submission_types: string[];
+  /** null when Canvas returned no submission for the user */
+  submission_status: {
+    workflow_state: string;
+    submitted_at: string | null;
+    missing: boolean;
+    late: boolean;
+  } | null;
+}
+
+/**
+ * The user's submission for one assignment (get_submission_status)
+ */
+export interface SubmissionStatus {
+  assignment_id: number;
+  name: string | null;
+  workflow_state: string;
+  submitted_at: string | null;
+  graded_at: string | null;
+  score: number | null;
+  late: boolean;
+  missing: boolean;
+  excused: boolean;
+}
+
+/**
+ * Course grade summary (get_course_grades); check available before reading scores
+ */
+export type CourseGrades =
+  | {
+      course_id: number;
+      available: true;
+      current_score: number | null;
+      current_grade: string | null;
+      final_score: number | null;
+      final_grade: string | null;
+      enrollment_state: string;
+      term_id: number | null;
+      course_start_at: string | null;
+      course_end_at: string | null;
+      last_updated: string | null;
+    }
+  | {
+      course_id: number;
+      available: false;
+      reason: 'no_grades_yet';
+      enrollment_state: string;
+      term_id: number | null;
+      course_start_at: string | null;
+      course_end_at: string | null;
+    }
+  | {
+      course_id: number;
+      available: false;
+      reason: 'hidden_or_unavailable';
+    };
+
+/**
+ * An assignment due soon or overdue (list_upcoming)
+ */
+export interface UpcomingAssignment {
+  course_id: number;
+  course_name: string;
+  assignment_id: number;
+  name: string;
+  due_at: string | null;
+  status: 'submitted' | 'unsubmitted' | 'missing';
+  points_possible: number;
+  /** Set when aggregating across observed students */
+  student_id?: number;
+  student_name?: string;
+  /** Set when merging results from several Canvas profiles */
+  profile?: string;
+}
+
+export interface UpcomingAssignments {
+  assignments: UpcomingAssignment[];
+  partial_failures: PartialFailure[];
+}
+
+// Assignment with the user's submission, as returned by /courses/:id/assignments?include[]=submission
+// (the GraphQL path maps its results to the same shape)
+interface RawCourseSubmission {
+  workflow_state: string;
+  submitted_at?: string | null;
+  score?: number | null;
+  missing?: boolean;
+  late?: boolean;
+}
+
+interface RawCourseAssignment {
+  id: number;
+  name: string;
+  description?: string;
+  due_at?: string | null;
+  unlock_at?: string | null;
+  lock_at?: string | null;
+  points_possible?: number;
+  submission_types?: string[];
+  has_submitted_submissions?: boolean;
+  submission?: RawCourseSubmission;
+}
+
+// GraphQL selection for assignments, mapped to RawCourseAssignment by toRawAssignment
+// All grading periods (Canvas defaults to the current one), and unsubmitted submissions too
+// (excluded by default) so past-due work without a submission still reports as missing
+const GRAPHQL_ASSIGNMENTS = `assignmentsConnection(first: 100, after: $after, filter: { gradingPeriodId: null }) {
+      nodes {
+        _id
+        name
+        dueAt
+        unlockAt
+        lockAt
+        pointsPossible
+        submissionTypes
+        submissionsConnection(first: 1, filter: { states: [unsubmitted, submitted, pending_review, graded] }) {
+          nodes { state submittedAt score missing late }
+        }
+      }
+      pageInfo { hasNextPage endCursor }
+    }`;
+
+interface GraphqlAssignmentPage {
+  nodes: Array<{
+    _id: string;
+    name: string;
+    dueAt?: string | null;
+    unlockAt?: string | null;
+    lockAt?: string | null;
+    pointsPossible?: number | null;
+    submissionTypes?: string[] | null;
+    submissionsConnection?: {
+      nodes: Array<{
+        state: string;
+        submittedAt?: string | null;
+        score?: number | null;
+        missing?: boolean | null;
+        late?: boolean | null;
+      }>;
+    } | null;
+  }>;
+  pageInfo: { hasNextPage: boolean; endCursor: string | null };
+}
+
+// Courses per GraphQL query (keeps each query well under Canvas's complexity limit)
+const GRAPHQL_COURSE_BATCH = 10;
+
+/**
+ * Map a GraphQL assignment node to the REST shape
+ */
+function toRawAssignment(node: GraphqlAssignmentPage['nodes'][number]): RawCourseAssignment {
+  const submission = node.submissionsConnection?.nodes?.[0];
+  return {
+    id: Number(node._id),
+    name: node.name,
+    due_at: node.dueAt ?? null,
+    unlock_at: node.unlockAt ?? null,
+    lock_at: node.lockAt ?? null,
+    points_possible: node.pointsPossible ?? 0,
+    submission_types: node.submissionTypes ?? [],
+    submission: submission ? {
+      workflow_state: submission.state,
+      submitted_at: submission.submittedAt ?? null,
+      score: submission.score ?? null,
+      missing: submission.missing ?? false,
+      late: submission.late ?? false,
+    } : undefined,
+  };
 }
 
 export class CanvasClient {
   private baseUrl: string;
   private apiToken: string;
+  private tokenProvider?: TokenProvider;
   private timeoutMs: number;
+  private snapshots?: SnapshotStore;
+  private cache?: ResponseCache;
+  private bypassCache = false;
+  /** Observed student this view queries for; null means the authenticated user ("self") */
+  private studentId: number | null = null;
+  private scheduler: RequestScheduler;
+  private concurrency: number;
+  // Shared object so cache-bypass views see GraphQL being switched off too
+  private graphqlState = { available: true };
 
   constructor(config: CanvasConfig) {
     this.baseUrl = config.baseUrl.replace(/\/$/, ''); // Remove trailing slash
-    this.apiToken = config.apiToken;
+    this.apiToken = config.apiToken ?? '';
+    this.tokenProvider = config.tokenProvider;
+    if (!this.apiToken && !this.tokenProvider) {
+      throw new Error('CanvasClient requires apiToken or tokenProvider');
+    }
     this.timeoutMs = typeof config.timeoutMs === 'number' && isFinite(config.timeoutMs) && config.timeoutMs > 0
       ? Math.floor(config.timeoutMs)
       : 15000; // sensible default: 15s
+    this.snapshots = config.snapshots;
+    if (config.cacheEnabled !== false) {
+      this.cache = new ResponseCache(config.cacheMaxEntries);
+    }
+    this.scheduler = new RequestScheduler({ maxRetries: config.maxRetries, deadlineMs: config.retryDeadlineMs });
+    this.concurrency = typeof config.concurrency === 'number' && config.concurrency >= 1
+      ? Math.floor(config.concurrency)
+      : 4;
+    this.graphqlState.available = config.graphqlEnabled !== false;
+  }
+
+  /**
+   * A view of this client that skips cache reads for every request it makes
+   * Fresh responses still refresh the shared cache; state (cache, snapshots) is shared
+   */
+  withCacheBypass(): CanvasClient {
+    const view = Object.create(this) as CanvasClient;
+    view.bypassCache = true;
+    return view;
+  }
+
+  /**
+   * A view of this client that queries on behalf of an observed student
+   * Submissions, grades, courses, planner and module progress are requested for that student
+   * instead of "self". Throws invalid_arguments if the student is not linked to this account.
+   */
+  async forStudent(studentId: string | number): Promise<CanvasClient> {
+    const id = Number(studentId);
+    const observees = await this.listObservees();
+    const student = observees.find(o => o.id === id);
+    if (!student) {
+      const e = new Error(`student_id ${studentId} is not a student observed by this account (see list_students)`);
+      (e as any).code = 'invalid_arguments';
+      throw e;
+    }
+    return this.studentView(student.id);
+  }
+
+  private studentView(studentId: number): CanvasClient {
+    const view = Object.create(this) as CanvasClient;
+    view.studentId = studentId;
+    view.snapshots = this.snapshots?.forUser(studentId);
+    return view;
+  }
+
+  /**
+   * User reference for per-user endpoints: the observed student's ID, or "self"
+   */
+  private get userRef(): string {
+    return this.studentId !== null ? String(this.studentId) : 'self';
+  }
+
+  cacheStats(): CacheStats {
+    if (!this.cache) {
+      return { enabled: false, entries: 0, max_entries: 0, hits: 0, misses: 0, revalidated: 0, deduplicated: 0, bypassed: 0, evictions: 0 };
+    }
+    return this.cache.stats();
+  }
+
+  /**
+   * Drop all cached responses; returns the number of entries removed
+   */
+  clearCache(): number {
+    return this.cache ? this.cache.clear() : 0;
+  }
+
+  /**
+   * Last reported Canvas rate-limit bucket state and throttle/retry counters
+   */
+  rateLimitState(): RateLimitState {
+    return this.scheduler.rateLimitState();
   }
 
   /**
@@ -73,58 +404,325 @@ export class CanvasClient {
 
   /**
    * Make a GET request to Canvas API with automatic pagination
+   * Array values are sent as repeated query parameters (e.g. context_codes[]=a&context_codes[]=b)
    */
-  private async getWithPagination<T>(endpoint: string, params: Record<string, string> = {}): Promise<T[]> {
-    const results: T[] = [];
+  private async getWithPagination<T>(endpoint: string, params: Record<string, string | string[]> = {}): Promise<T[]> {
+    const pages = await this.getPages<T[]>(endpoint, params);
+    return pages.flat();
+  }
+
+  /**
+   * Follow Link-header pagination and return each page's parsed body
+   * Used directly for paginated endpoints whose pages are objects rather than arrays
+   */
+  private async getPages<P>(endpoint: string, params: Record<string, string | string[]> = {}): Promise<P[]> {
+    const pages: P[] = [];
+
+    // Set per_page to 100 to minimize requests
+    let nextUrl: string | undefined = this.buildUrl(endpoint, { ...params, 'per_page': '100' });
+
+    while (nextUrl) {
+      const page: { data: P; next?: string } = await this.request<P>(nextUrl);
+      pages.push(page.data);
+
+      // Next page from the Link header
+      nextUrl = page.next;
+    }
+
+    return pages;
+  }
+
+  /**
+   * Make a single (non-paginated) GET request to Canvas API
+   */
+  private async getJson<T>(endpoint: string, params: Record<string, string | string[]> = {}): Promise<T> {
+    const { data } = await this.request<T>(this.buildUrl(endpoint, params));
+    return data;
+  }
 
-    // Build initial URL
+  /**
+   * Build an API URL; array values are sent as repeated query parameters
+   */
+  private buildUrl(endpoint: string, params: Record<string, string | string[]>): string {
     const url = new URL(`${this.baseUrl}/api/v1${endpoint}`);
     Object.entries(params).forEach(([key, value]) => {
-      url.searchParams.append(key, value);
+      for (const v of Array.isArray(value) ? value : [value]) {
+        url.searchParams.append(key, v);
+      }
     });
+    return url.toString();
+  }
 
-    // Set per_page to 100 to minimize requests
-    url.searchParams.append('per_page', '100');
+  /**
+   * GET a Canvas API URL through the response cache
+   * Returns the parsed body and the next page URL from the Link header
+   */
+  private async request<T>(url: string): Promise<{ data: T; next?: string }> {
+    if (!this.cache) {
+      // Without an ETag, fetchJson always returns a full response
+      const result = await this.fetchJson(url) as CachedResponse;
+      return { data: result.data as T, next: result.next };
+    }
 
-    let nextUrl: string | undefined = url.toString();
+    const cached = await this.cache.fetch(url, this.bypassCache, etag => this.fetchJson(url, etag));
+    // Callers may mutate what they get back; never hand out the cached object itself
+    return { data: structuredClone(cached.data) as T, next: cached.next };
+  }
 
-    while (nextUrl) {
-      const response = await this.fetchWithTimeout(nextUrl, {
-        headers: {
-          'Authorization': `Bearer ${this.apiToken}`,
-          'Accept': 'application/json',
-        },
-      });
+  /**
+   * Perform one authenticated GET (or POST, when a body is given) and parse the JSON body
+   * Sends If-None-Match when an ETag is given; a 304 is reported as notModified
+   * Paced and retried by the request scheduler (rate limits, 5xx, timeouts)
+   * With OAuth, a 401 (expired access token) triggers one refresh and a retry
+   */
+  private async fetchJson(url: string, etag?: string, body?: unknown): Promise<LoadResult> {
+    let token = this.tokenProvider ? await this.tokenProvider.getToken() : this.apiToken;
+    const headers: Record<string, string> = {
+      'Authorization': `Bearer ${token}`,
+      'Accept': 'application/json',
+    };
+    if (etag) {
+      headers['If-None-Match'] = etag;
+    }
+    const init: RequestInit = { headers };
+    if (body !== undefined) {
+      // GraphQL queries are POSTed but read-only, so they are safe to retry like GETs
+      headers['Content-Type'] = 'application/json';
+      init.method = 'POST';
+      init.body = JSON.stringify(body);
+    }
+
+    let response = await this.scheduler.run(() => this.fetchWithTimeout(url, init));
+
+    if (response.status === 401 && this.tokenProvider && await this.tokenProvider.refresh(token)) {
+      token = await this.tokenProvider.getToken();
+      headers['Authorization'] = `Bearer ${token}`;
+      response = await this.scheduler.run(() => this.fetchWithTimeout(url, init));
+    }
+
+    if (response.status === 304 && etag) {
+      return { notModified: true };
+    }
+
+    if (!response.ok) {
+      const remaining = this.scheduler.rateLimitState().remaining;
+      const throttled = await isThrottled(response);
+      const e = throttled
+        ? new Error(`Canvas rate limit exceeded (remaining: ${remaining ?? 'unknown'}); try again shortly`)
+        : new Error(`Canvas API error: ${response.status} ${response.statusText}`);
+      (e as any).code = throttled ? 'rate_limited' : 'canvas_api_error';
+      (e as any).status = response.status;
+      (e as any).rate_limit_remaining = remaining;
+      throw e;
+    }
+
+    let data: unknown;
+    try {
+      data = await response.json();
+    } catch (e) {
+      const err = new Error('Invalid Canvas API response');
+      (err as any).code = 'invalid_response';
+      throw err;
+    }
 
-      if (!response.ok) {
-        const e = new Error(`Canvas API error: ${response.status} ${response.statusText}`);
-        (e as any).code = 'canvas_api_error';
+    // Check for next page in Link header
+    const links = this.parseLinkHeader(response.headers.get('Link'));
+
+    return {
+      notModified: false,
+      data,
+      next: links.next,
+      etag: response.headers.get('ETag') || undefined,
+    };
+  }
+
+  /**
+   * Run a read-only GraphQL query through the response cache
+   * The cache key is the endpoint plus a hash of query and variables; GraphQL responses have no ETag.
+   * Returns data even when some fields errored (those fields are null); fails only without data.
+   * Responses without data fail inside the loader, so they are never cached.
+   */
+  private async graphqlQuery<T>(query: string, variables: Record<string, unknown>): Promise<T> {
+    const url = `${this.baseUrl}/api/graphql`;
+    const body = { query, variables };
+    type Payload = { data?: T | null; errors?: Array<{ message?: string }> } | null;
+    const load = async () => {
+      const result = await this.fetchJson(url, undefined, body);
+      const payload = result.notModified ? null : result.data as Payload;
+      if (!payload || !payload.data) {
+        const e = new Error(`Canvas GraphQL error: ${payload?.errors?.[0]?.message || 'no data returned'}`);
+        (e as any).code = 'graphql_error';
         throw e;
       }
+      return result;
+    };
 
-      let data: T[];
-      try {
-        data = await response.json() as T[];
-      } catch (e) {
-        const err = new Error('Invalid Canvas API response');
-        (err as any).code = 'invalid_response';
-        throw err;
+    let result: CachedResponse;
+    if (this.cache) {
+      const key = `${url}#${createHash('sha256').update(JSON.stringify(body)).digest('hex')}`;
+      result = await this.cache.fetch(key, this.bypassCache, load);
+    } else {
+      result = await load() as CachedResponse;
+    }
+
+    return structuredClone((result.data as Payload)!.data as T);
+  }
+
+  /**
+   * Whether an error means GraphQL is not usable on this instance (disabled, blocked or not JSON)
+   */
+  private isGraphqlUnavailable(error: any): boolean {
+    return error?.code === 'invalid_response' ||
+      (error?.code === 'canvas_api_error' && [401, 403, 404, 405].includes(error?.status));
+  }
+
+  /**
+   * Assignments with the user's submission for several courses via GraphQL, in REST shape
+   *
+   * One query per batch of courses (aliased course fields), plus follow-up queries for courses
+   * with more than 100 assignments. Never throws: courses GraphQL couldn't return are simply
+   * absent from the map, so callers fetch them over REST. Errors that mean GraphQL is unavailable
+   * switch it off for the lifetime of the client.
+   */
+  private async getAssignmentsGraphql(courseIds: number[]): Promise<Map<number, RawCourseAssignment[]>> {
+    const found = new Map<number, RawCourseAssignment[]>();
+    // GraphQL submissions are the caller's own; observed students always go through REST
+    if (!this.graphqlState.available || this.studentId !== null || courseIds.length === 0) {
+      return found;
+    }
+
+    const batches: number[][] = [];
+    for (let i = 0; i < courseIds.length; i += GRAPHQL_COURSE_BATCH) {
+      batches.push(courseIds.slice(i, i + GRAPHQL_COURSE_BATCH));
+    }
+
+    const loadBatch = async (batch: number[]) => {
+      const declarations = batch.map((_, i) => `$c${i}: ID!`).join(', ');
+      const fields = batch.map((_, i) => `c${i}: course(id: $c${i}) {
+    _id
+    ${GRAPHQL_ASSIGNMENTS}
+  }`).join('\n  ');
+      const query = `query CourseAssignments(${declarations}, $after: String) {
+  ${fields}
+}`;
+      const variables: Record<string, unknown> = { after: null };
+      batch.forEach((id, i) => { variables[`c${i}`] = String(id); });
+
+      type CourseNode = { _id: string; assignmentsConnection: GraphqlAssignmentPage | null } | null;
+      const data = await this.graphqlQuery<Record<string, CourseNode>>(query, variables);
+
+      for (let i = 0; i < batch.length; i++) {
+        const course = data[`c${i}`];
+        if (!course?.assignmentsConnection) {
+          continue;
+        }
+        const assignments = course.assignmentsConnection.nodes.map(toRawAssignment);
+        let pageInfo = course.assignmentsConnection.pageInfo;
+        while (pageInfo.hasNextPage && pageInfo.endCursor) {
+          const next = await this.graphqlQuery<{ course: CourseNode }>(`query CourseAssignmentsPage($id: ID!, $after: String) {
+  course(id: $id) {
+    _id
+    ${GRAPHQL_ASSIGNMENTS}
+  }
+}`, { id: String(batch[i]), after: pageInfo.endCursor });
+          const page = next.course?.assignmentsConnection;
+          if (!page) {
+            const e = new Error('Canvas GraphQL returned no assignment page');
+            (e as any).code = 'graphql_error';
+            throw e;
+          }
+          assignments.push(...page.nodes.map(toRawAssignment));
+          pageInfo = page.pageInfo;
+        }
+        found.set(batch[i], assignments);
+      }
+    };
+
+    const outcomes = await mapSettled(batches, this.concurrency, loadBatch);
+    for (const outcome of outcomes) {
+      if (outcome.status === 'fulfilled') {
+        continue;
+      }
+      const code = outcome.reason?.code || 'internal_error';
+      if (this.isGraphqlUnavailable(outcome.reason)) {
+        if (this.graphqlState.available) {
+          this.graphqlState.available = false;
+          console.log(JSON.stringify({ level: 'warn', event: 'graphql_disabled', code, status: outcome.reason?.status ?? null }));
+        }
+      } else {
+        console.log(JSON.stringify({ level: 'warn', event: 'graphql_fallback', code }));
       }
-      results.push(...data);
+    }
+
+    return found;
+  }
+
+  /**
+   * Raw assignment lists for several courses
+   * GraphQL first (one query per batch of courses); REST with bounded concurrency for courses
+   * GraphQL didn't return. Courses that fail over REST too are partial failures.
+   */
+  private async getAssignmentsForCourses<C extends { id: number }>(courses: C[]) {
+    const fromGraphql = await this.getAssignmentsGraphql(courses.map(c => c.id));
+
+    const { results, failures } = await this.forEachCourse(
+      courses.filter(c => !fromGraphql.has(c.id)),
+      course => this.getRawAssignments(course.id)
+    );
+
+    return {
+      results: [
+        ...courses.filter(c => fromGraphql.has(c.id)).map(course => ({ course, value: fromGraphql.get(course.id)! })),
+        ...results,
+      ],
+      failures,
+    };
+  }
+
+  /**
+   * The authenticated Canvas user (whose token this client sends)
+   */
+  async getSelf() {
+    interface RawUser {
+      id: number;
+      name: string;
+      short_name?: string;
+      login_id?: string;
+    }
+
+    const user = await this.getJson<RawUser>('/users/self');
+
+    return {
+      id: user.id,
+      name: user.name,
+      short_name: user.short_name || null,
+      login_id: user.login_id || null,
+    };
+  }
 
-      // Check for next page in Link header
-      const linkHeader = response.headers.get('Link');
-      const links = this.parseLinkHeader(linkHeader);
-      nextUrl = links.next;
+  /**
+   * Students linked to this account as an observer (parent); empty for student accounts
+   */
+  async listObservees(): Promise<Observee[]> {
+    interface RawObservee {
+      id: number;
+      name: string;
+      short_name?: string;
     }
 
-    return results;
+    const observees = await this.getWithPagination<RawObservee>('/users/self/observees');
+
+    return observees.map(o => ({
+      id: o.id,
+      name: o.name,
+      short_name: o.short_name || null,
+    }));
   }
 
   /**
-   * List all active courses for the authenticated user
+   * List all active courses for the authenticated user (or the observed student)
    */
-  async listCourses() {
+  async listCourses(): Promise<Course[]> {
     interface RawCourse {
       id: number;
       name: string;
@@ -134,11 +732,14 @@ export class CanvasClient {
       workflow_state?: string;
     }
 
-    const courses = await this.getWithPagination<RawCourse>('/courses', {
+    const endpoint = this.studentId !== null ? `/users/${this.studentId}/courses` : '/courses';
+    const courses = await this.getWithPagination<RawCourse>(endpoint, {
       'enrollment_state': 'active',
       'include[]': 'enrollment_state',
     });
 
+    this.snapshots?.recordCourses(courses);
+
     // Normalize output - keep only essential fields
     return courses.map(course => ({
       id: course.id,
@@ -148,6 +749,39 @@ export class CanvasClient {
     }));
   }
 
+  /**
+   * Active courses, filtered to courseIds if provided
+   * Shared by cross-course tools so every item can be enriched with its course name
+   */
+  private async getTargetCourses(courseIds?: (string | number)[]) {
+    const courses = await this.listCourses();
+    return courseIds
+      ? courses.filter(c => courseIds.includes(c.id) || courseIds.includes(String(c.id)))
+      : courses;
+  }
+
+  /**
+   * Run a per-course task across courses with bounded concurrency
+   * A failing course becomes a partial failure instead of failing the whole call
+   */
+  private async forEachCourse<C extends { id: number }, R>(courses: C[], task: (course: C) => Promise<R>) {
+    const outcomes = await mapSettled(courses, this.concurrency, task);
+    const results: Array<{ course: C; value: R }> = [];
+    const failures: PartialFailure[] = [];
+
+    outcomes.forEach((outcome, i) => {
+      if (outcome.status === 'fulfilled') {
+        results.push({ course: courses[i], value: outcome.value });
+      } else {
+        const code = outcome.reason?.code || 'internal_error';
+        failures.push({ course_id: courses[i].id, code });
+        console.log(JSON.stringify({ level: 'warn', event: 'course_failed', course_id: courses[i].id, code }));
+      }
+    });
+
+    return { results, failures };
+  }
+
   /**
    * List assignments for a course
    *
@@ -164,35 +798,44 @@ export class CanvasClient {
     courseId: string | number,
     includeFuture: boolean = true,
     statusFilter: 'all' | 'missing' | 'unsubmitted' | 'submitted' = 'all'
-  ) {
-    interface RawSubmission {
-      workflow_state: string;
-      submitted_at?: string | null;
-      missing?: boolean;
-      late?: boolean;
-    }
-
-    interface RawAssignment {
-      id: number;
-      name: string;
-      description?: string;
-      due_at?: string | null;
-      unlock_at?: string | null;
-      lock_at?: string | null;
-      points_possible?: number;
-      submission_types?: string[];
-      has_submitted_submissions?: boolean;
-      submission?: RawSubmission;
-    }
+  ): Promise<CourseAssignment[]> {
+    const assignments = await this.getRawAssignments(courseId);
+    return this.processAssignments(Number(courseId), assignments, includeFuture, statusFilter);
+  }
 
-    const params: Record<string, string> = {
+  /**
+   * Fetch a course's assignments with the user's submission (REST)
+   */
+  private async getRawAssignments(courseId: string | number): Promise<RawCourseAssignment[]> {
+    // The per-user endpoint returns the observed student's submission instead of the caller's
+    const endpoint = this.studentId !== null
+      ? `/users/${this.studentId}/courses/${courseId}/assignments`
+      : `/courses/${courseId}/assignments`;
+    return this.getWithPagination<RawCourseAssignment>(endpoint, {
       'include[]': 'submission',
-    };
+    });
+  }
 
-    const assignments = await this.getWithPagination<RawAssignment>(
-      `/courses/${courseId}/assignments`,
-      params
-    );
+  /**
+   * Record a course's assignment list for change detection, then filter and normalize it
+   * Shared by the REST and GraphQL paths so both produce identical output
+   */
+  private processAssignments(
+    courseId: number,
+    assignments: RawCourseAssignment[],
+    includeFuture: boolean,
+    statusFilter: 'all' | 'missing' | 'unsubmitted' | 'submitted'
+  ): CourseAssignment[] {
+    // Record the full, unfiltered list for change detection
+    this.snapshots?.recordAssignments(courseId, assignments.map(a => ({
+      id: a.id,
+      name: a.name,
+      due_at: a.due_at ?? null,
+      points_possible: a.points_possible || 0,
+      score: a.submission?.score ?? null,
+      missing: a.submission?.missing || false,
+      submitted_at: a.submission?.submitted_at ?? null,
+    })));
 
     // Filter and normalize
     let filtered = assignments;
@@ -248,14 +891,14 @@ export class CanvasClient {
     return filtered.map(assignment => ({
       id: assignment.id,
       name: assignment.name,
-      due_at: assignment.due_at,
-      unlock_at: assignment.unlock_at,
-      lock_at: assignment.lock_at,
+      due_at: assignment.due_at ?? null,
+      unlock_at: assignment.unlock_at ?? null,
+      lock_at: assignment.lock_at ?? null,
       points_possible: assignment.points_possible || 0,
       submission_types: assignment.submission_types || [],
       submission_status: assignment.submission ? {
         workflow_state: assignment.submission.workflow_state,
-        submitted_at: assignment.submission.submitted_at,
+        submitted_at: assignment.submission.submitted_at ?? null,
         missing: assignment.submission.missing || false,
         late: assignment.submission.late || false,
       } : null,
@@ -266,7 +909,7 @@ export class CanvasClient {
    * Get submission status for a specific assignment
    * Uses single API request with include[]=assignment to get both submission and assignment details
    */
-  async getSubmissionStatus(courseId: string | number, assignmentId: string | number) {
+  async getSubmissionStatus(courseId: string | number, assignmentId: string | number): Promise<SubmissionStatus> {
     interface RawAssignment {
       id: number;
       name: string;
@@ -284,31 +927,19 @@ export class CanvasClient {
       assignment?: RawAssignment;
     }
 
-    const url = `${this.baseUrl}/api/v1/courses/${courseId}/assignments/${assignmentId}/submissions/self`;
-    const params = new URLSearchParams({
-      'include[]': 'assignment',
-    });
-
-    const response = await this.fetchWithTimeout(`${url}?${params.toString()}`, {
-      headers: {
-        'Authorization': `Bearer ${this.apiToken}`,
-        'Accept': 'application/json',
-      },
-    });
-
-    if (!response.ok) {
-      const e = new Error(`Canvas API error: ${response.status} ${response.statusText}`);
-      (e as any).code = 'canvas_api_error';
-      throw e;
-    }
+    const submission = await this.getJson<RawSubmission>(
+      `/courses/${courseId}/assignments/${assignmentId}/submissions/${this.userRef}`,
+      { 'include[]': 'assignment' }
+    );
 
-    let submission: RawSubmission;
-    try {
-      submission = await response.json() as RawSubmission;
-    } catch (e) {
-      const err = new Error('Invalid Canvas API response');
-      (err as any).code = 'invalid_response';
-      throw err;
+    if (submission.assignment?.name) {
+      this.snapshots?.recordSubmission(Number(courseId), {
+        id: submission.assignment_id,
+        name: submission.assignment.name,
+        score: submission.score ?? null,
+        missing: submission.missing || false,
+        submitted_at: submission.submitted_at ?? null,
+      });
     }
 
     // Normalize output - return only essential fields
@@ -326,12 +957,143 @@ export class CanvasClient {
   }
 
   /**
-   * Get course grade summary for the authenticated user
-   * Best-effort: returns available: false if grades are hidden/unavailable or no_grades_yet
-   * Never throws on missing grade data
-   * Handles multiple enrollments by preferring active, most current enrollment
+   * Get grading feedback for a specific assignment submission
+   *
+   * Single API request (include[]=submission_comments, rubric_assessment, submission_history, assignment).
+   * Rubric assessment entries are mapped back to criterion names and rating descriptions
+   * using the rubric embedded in the assignment. Attempt history lists one entry per attempt, oldest first.
    */
-  async getCourseGrades(courseId: string | number) {
+  async getSubmissionFeedback(courseId: string | number, assignmentId: string | number) {
+    interface RawRating {
+      id?: string;
+      description?: string;
+    }
+
+    interface RawCriterion {
+      id: string;
+      description?: string;
+      points?: number;
+      ratings?: RawRating[];
+    }
+
+    interface RawAssignment {
+      id: number;
+      name: string;
+      points_possible?: number | null;
+      rubric?: RawCriterion[];
+    }
+
+    interface RawComment {
+      id: number;
+      author_name?: string;
+      author?: { display_name?: string };
+      comment?: string;
+      created_at?: string;
+      attempt?: number | null;
+      attachments?: Array<{ display_name?: string; filename?: string }>;
+    }
+
+    interface RawAssessment {
+      points?: number | null;
+      rating_id?: string | null;
+      comments?: string | null;
+    }
+
+    interface RawAttempt {
+      attempt?: number | null;
+      workflow_state?: string;
+      submitted_at?: string | null;
+      graded_at?: string | null;
+      score?: number | null;
+      grade?: string | null;
+      late?: boolean;
+      submission_type?: string | null;
+    }
+
+    interface RawSubmission extends RawAttempt {
+      assignment_id: number;
+      excused?: boolean;
+      assignment?: RawAssignment;
+      submission_comments?: RawComment[];
+      rubric_assessment?: Record<string, RawAssessment>;
+      submission_history?: RawAttempt[];
+    }
+
+    const submission = await this.getJson<RawSubmission>(
+      `/courses/${courseId}/assignments/${assignmentId}/submissions/${this.userRef}`,
+      { 'include[]': ['submission_comments', 'rubric_assessment', 'submission_history', 'assignment'] }
+    );
+
+    const rubric = submission.assignment?.rubric || [];
+    const criteria = new Map(rubric.map(c => [c.id, c]));
+
+    const comments = (submission.submission_comments || [])
+      .map(c => ({
+        author: c.author?.display_name || c.author_name || null,
+        created_at: c.created_at || null,
+        attempt: c.attempt ?? null,
+        text: c.comment || '',
+        attachments: (c.attachments || []).map(a => a.display_name || a.filename || 'attachment'),
+      }))
+      .sort((a, b) => new Date(a.created_at || 0).getTime() - new Date(b.created_at || 0).getTime());
+
+    // Preserve rubric order; include assessed criteria missing from the rubric last
+    const assessment = submission.rubric_assessment || {};
+    const assessedIds = [
+      ...rubric.map(c => c.id).filter(id => id in assessment),
+      ...Object.keys(assessment).filter(id => !criteria.has(id)),
+    ];
+    const rubricAssessment = assessedIds.map(id => {
+      const entry = assessment[id];
+      const criterion = criteria.get(id);
+      const rating = criterion?.ratings?.find(r => r.id && r.id === entry.rating_id);
+      return {
+        criterion_id: id,
+        criterion: criterion?.description || null,
+        points: entry.points ?? null,
+        points_possible: criterion?.points ?? null,
+        rating: rating?.description || null,
+        comments: entry.comments || null,
+      };
+    });
+
+    const attempts = (submission.submission_history || [])
+      .filter(a => a.attempt !== null && a.attempt !== undefined)
+      .map(a => ({
+        attempt: a.attempt as number,
+        workflow_state: a.workflow_state || null,
+        submission_type: a.submission_type || null,
+        submitted_at: a.submitted_at || null,
+        graded_at: a.graded_at || null,
+        score: a.score !== null && a.score !== undefined ? a.score : null,
+        grade: a.grade ?? null,
+        late: a.late || false,
+      }))
+      .sort((a, b) => a.attempt - b.attempt);
+
+    return {
+      assignment_id: submission.assignment_id,
+      name: submission.assignment?.name || null,
+      points_possible: submission.assignment?.points_possible ?? null,
+      workflow_state: submission.workflow_state || null,
+      attempt: submission.attempt ?? null,
+      score: submission.score !== null && submission.score !== undefined ? submission.score : null,
+      grade: submission.grade ?? null,
+      graded_at: submission.graded_at || null,
+      excused: submission.excused || false,
+      comments,
+      rubric_assessment: rubricAssessment,
+      attempts,
+    };
+  }
+
+  /**
+   * Get course grade summary for the authenticated user
+   * Best-effort: returns available: false if grades are hidden/unavailable or no_grades_yet
+   * Never throws on missing grade data
+   * Handles multiple enrollments by preferring active, most current enrollment
+   */
+  async getCourseGrades(courseId: string | number): Promise<CourseGrades> {
     interface RawTerm {
       id: number;
       name: string;
@@ -366,20 +1128,16 @@ export class CanvasClient {
 
     try {
       // Fetch enrollments with term data - still a single API call
-      const url = `${this.baseUrl}/api/v1/courses/${courseId}/enrollments`;
-      const params = new URLSearchParams({
-        'user_id': 'self',
-        'type[]': 'StudentEnrollment',
-      });
-
-      const response = await this.fetchWithTimeout(`${url}?${params.toString()}`, {
-        headers: {
-          'Authorization': `Bearer ${this.apiToken}`,
-          'Accept': 'application/json',
-        },
-      });
-
-      if (!response.ok) {
+      let enrollments: RawEnrollment[];
+      try {
+        enrollments = await this.getJson<RawEnrollment[]>(`/courses/${courseId}/enrollments`, {
+          'user_id': this.userRef,
+          'type[]': 'StudentEnrollment',
+        });
+      } catch (error: any) {
+        if (error?.code !== 'canvas_api_error') {
+          throw error;
+        }
         // Course not found or access denied - return unavailable
         return {
           course_id: Number(courseId),
@@ -388,8 +1146,6 @@ export class CanvasClient {
         };
       }
 
-      const enrollments = await response.json() as RawEnrollment[];
-
       // Filter to enrollments for this course
       const courseEnrollments = enrollments.filter(e => e.course_id === Number(courseId));
 
@@ -457,6 +1213,8 @@ export class CanvasClient {
       const currentScore = grades?.current_score ?? enrollment.computed_current_score ?? null;
       const currentGrade = grades?.current_grade ?? enrollment.computed_current_grade ?? null;
 
+      this.snapshots?.recordCourseGrade(Number(courseId), currentScore, currentGrade);
+
       return {
         course_id: Number(courseId),
         available: true,
@@ -490,77 +1248,132 @@ export class CanvasClient {
 
   /**
    * List upcoming assignments across active courses
-   * Reuses listCourses and listAssignments logic
+   *
+   * For an observer account (without a student view) the list covers every observed student,
+   * each item tagged with student_id and student_name; otherwise it covers the current user.
    */
   async listUpcoming(
     days: number = 14,
     includeOverdue: boolean = true,
     courseIds?: (string | number)[]
-  ) {
-    // Get active courses
-    const courses = await this.listCourses();
+  ): Promise<UpcomingAssignments> {
+    if (this.studentId === null) {
+      const observees = await this.listObserveesOrNone();
+      if (observees.length > 0) {
+        return this.listUpcomingForStudents(observees, days, includeOverdue, courseIds);
+      }
+    }
+    return this.listUpcomingForUser(days, includeOverdue, courseIds);
+  }
 
-    // Filter by course_ids if provided
-    const targetCourses = courseIds
-      ? courses.filter(c => courseIds.includes(c.id) || courseIds.includes(String(c.id)))
-      : courses;
+  /**
+   * Observees, or none when the account can't have any (observee listing not permitted)
+   */
+  private async listObserveesOrNone(): Promise<Observee[]> {
+    try {
+      return await this.listObservees();
+    } catch (error: any) {
+      if (error?.code === 'canvas_api_error' && [401, 403, 404].includes(error?.status)) {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Upcoming assignments for each observed student, merged and sorted by due date
+   * Students are queried one at a time (each already fans out across courses)
+   */
+  private async listUpcomingForStudents(
+    observees: Observee[],
+    days: number,
+    includeOverdue: boolean,
+    courseIds?: (string | number)[]
+  ): Promise<UpcomingAssignments> {
+    const assignments: UpcomingAssignment[] = [];
+    const failures: PartialFailure[] = [];
+
+    for (const student of observees) {
+      try {
+        const result = await this.studentView(student.id).listUpcomingForUser(days, includeOverdue, courseIds);
+        assignments.push(...result.assignments.map(a => ({ student_id: student.id, student_name: student.name, ...a })));
+        failures.push(...result.partial_failures.map(f => ({ ...f, student_id: student.id })));
+      } catch (error: any) {
+        const code = error?.code || 'internal_error';
+        failures.push({ course_id: null, code, student_id: student.id });
+        console.log(JSON.stringify({ level: 'warn', event: 'student_failed', student_id: student.id, code }));
+      }
+    }
+
+    assignments.sort((a, b) => new Date(a.due_at!).getTime() - new Date(b.due_at!).getTime());
+
+    return {
+      assignments,
+      partial_failures: failures,
+    };
+  }
+
+  /**
+   * Upcoming assignments for the current user (or the observed student of this view)
+   * Reuses listCourses and listAssignments logic. Assignments come from GraphQL in a few
+   * queries when available, otherwise one REST chain per course in parallel (bounded);
+   * courses that fail are reported in partial_failures
+   */
+  private async listUpcomingForUser(
+    days: number,
+    includeOverdue: boolean,
+    courseIds?: (string | number)[]
+  ): Promise<UpcomingAssignments> {
+    // Get active courses, filtered by course_ids if provided
+    const targetCourses = await this.getTargetCourses(courseIds);
 
     const now = new Date();
     const futureLimit = new Date(now.getTime() + days * 24 * 60 * 60 * 1000);
 
+    // Get all assignments for each course (include_future=true, status_filter=all)
+    const { results: raw, failures } = await this.getAssignmentsForCourses(targetCourses);
+    const results = raw.map(({ course, value }) => ({
+      course,
+      value: this.processAssignments(course.id, value, true, 'all'),
+    }));
+
     // Collect assignments from all courses
-    const allAssignments: Array<{
-      course_id: number;
-      course_name: string;
-      assignment_id: number;
-      name: string;
-      due_at: string | null;
-      status: 'submitted' | 'unsubmitted' | 'missing';
-      points_possible: number;
-    }> = [];
+    const allAssignments: UpcomingAssignment[] = [];
 
-    for (const course of targetCourses) {
-      try {
-        // Get all assignments for this course (include_future=true, status_filter=all)
-        const assignments = await this.listAssignments(course.id, true, 'all');
+    for (const { course, value: assignments } of results) {
+      for (const assignment of assignments) {
+        if (!assignment.due_at) {
+          // Skip assignments without due dates
+          continue;
+        }
 
-        for (const assignment of assignments) {
-          if (!assignment.due_at) {
-            // Skip assignments without due dates
-            continue;
-          }
+        const dueDate = new Date(assignment.due_at);
 
-          const dueDate = new Date(assignment.due_at);
-
-          // Filter by date range
-          const isOverdue = dueDate < now;
-          const isUpcoming = dueDate >= now && dueDate <= futureLimit;
-
-          if ((includeOverdue && isOverdue) || isUpcoming) {
-            // Determine status from submission_status
-            let status: 'submitted' | 'unsubmitted' | 'missing' = 'unsubmitted';
-            if (assignment.submission_status) {
-              if (assignment.submission_status.missing) {
-                status = 'missing';
-              } else if (assignment.submission_status.submitted_at) {
-                status = 'submitted';
-              }
-            }
+        // Filter by date range
+        const isOverdue = dueDate < now;
+        const isUpcoming = dueDate >= now && dueDate <= futureLimit;
 
-            allAssignments.push({
-              course_id: course.id,
-              course_name: course.name,
-              assignment_id: assignment.id,
-              name: assignment.name,
-              due_at: assignment.due_at,
-              status,
-              points_possible: assignment.points_possible,
-            });
+        if ((includeOverdue && isOverdue) || isUpcoming) {
+          // Determine status from submission_status
+          let status: 'submitted' | 'unsubmitted' | 'missing' = 'unsubmitted';
+          if (assignment.submission_status) {
+            if (assignment.submission_status.missing) {
+              status = 'missing';
+            } else if (assignment.submission_status.submitted_at) {
+              status = 'submitted';
+            }
           }
+
+          allAssignments.push({
+            course_id: course.id,
+            course_name: course.name,
+            assignment_id: assignment.id,
+            name: assignment.name,
+            due_at: assignment.due_at,
+            status,
+            points_possible: assignment.points_possible,
+          });
         }
-      } catch (error) {
-        // Skip courses that error (graceful degradation)
-        continue;
       }
     }
 
@@ -571,6 +1384,1343 @@ export class CanvasClient {
       return aDate.getTime() - bDate.getTime();
     });
 
-    return allAssignments;
+    return {
+      assignments: allAssignments,
+      partial_failures: failures,
+    };
+  }
+
+  /**
+   * List announcements across active courses (or a course_ids subset)
+   *
+   * Date window:
+   * - since/until map to Canvas start_date/end_date (ISO 8601 or YYYY-MM-DD)
+   * - Canvas defaults to the last 14 days when neither is given
+   *
+   * read_state filter uses the per-user read_state Canvas returns for each announcement.
+   * Message bodies are converted from HTML to plain text or markdown.
+   */
+  async listAnnouncements(
+    courseIds?: (string | number)[],
+    since?: string,
+    until?: string,
+    readState: 'all' | 'read' | 'unread' = 'all',
+    format: TextFormat = 'text'
+  ) {
+    interface RawAnnouncement {
+      id: number;
+      title: string;
+      message?: string | null;
+      posted_at?: string | null;
+      context_code?: string;
+      user_name?: string;
+      author?: { display_name?: string };
+      read_state?: string;
+      html_url?: string;
+    }
+
+    // Get active courses, filtered by course_ids if provided
+    const targetCourses = await this.getTargetCourses(courseIds);
+
+    if (targetCourses.length === 0) {
+      return [];
+    }
+
+    const params: Record<string, string | string[]> = {
+      'context_codes[]': targetCourses.map(c => `course_${c.id}`),
+    };
+    if (since) {
+      params['start_date'] = since;
+    }
+    if (until) {
+      params['end_date'] = until;
+    }
+
+    const announcements = await this.getWithPagination<RawAnnouncement>('/announcements', params);
+
+    const courseNames = new Map(targetCourses.map(c => [c.id, c.name]));
+
+    const filtered = readState === 'all'
+      ? announcements
+      : announcements.filter(a => (a.read_state === 'read' ? 'read' : 'unread') === readState);
+
+    // Normalize output - keep only essential fields
+    const normalized = filtered.map(a => {
+      const courseId = a.context_code?.startsWith('course_') ? Number(a.context_code.slice('course_'.length)) : null;
+      return {
+        id: a.id,
+        course_id: courseId,
+        course_name: courseId !== null ? courseNames.get(courseId) ?? null : null,
+        title: a.title,
+        author: a.author?.display_name || a.user_name || null,
+        posted_at: a.posted_at || null,
+        read_state: a.read_state === 'read' ? 'read' : 'unread',
+        html_url: a.html_url || null,
+        message: convertHtml(a.message, format, { baseUrl: this.baseUrl }),
+      };
+    });
+
+    // Sort by posted_at descending (newest first)
+    normalized.sort((a, b) => {
+      const aTime = a.posted_at ? new Date(a.posted_at).getTime() : 0;
+      const bTime = b.posted_at ? new Date(b.posted_at).getTime() : 0;
+      return bTime - aTime;
+    });
+
+    return normalized;
+  }
+
+  /**
+   * List modules for a course with items, completion requirements and lock state
+   *
+   * Module state is the current user's progress as reported by Canvas:
+   * - "locked": prerequisites or unlock_at not yet met
+   * - "unlocked": available, no requirements completed yet
+   * - "started": some requirements completed
+   * - "completed": all requirements completed
+   *
+   * Canvas omits inline items for large modules; those are fetched from the module's items endpoint.
+   */
+  async listModules(courseId: string | number, includeItems: boolean = true) {
+    interface RawCompletionRequirement {
+      type: string;
+      min_score?: number;
+      completed?: boolean;
+    }
+
+    interface RawContentDetails {
+      points_possible?: number;
+      due_at?: string | null;
+      unlock_at?: string | null;
+      lock_at?: string | null;
+      locked_for_user?: boolean;
+      lock_explanation?: string;
+    }
+
+    interface RawModuleItem {
+      id: number;
+      title: string;
+      type: string;
+      position?: number;
+      indent?: number;
+      content_id?: number;
+      page_url?: string;
+      html_url?: string;
+      external_url?: string;
+      completion_requirement?: RawCompletionRequirement;
+      content_details?: RawContentDetails;
+    }
+
+    interface RawModule {
+      id: number;
+      name: string;
+      position?: number;
+      unlock_at?: string | null;
+      require_sequential_progress?: boolean;
+      prerequisite_module_ids?: number[];
+      items_count?: number;
+      items?: RawModuleItem[];
+      state?: string;
+      completed_at?: string | null;
+    }
+
+    const params: Record<string, string | string[]> = includeItems
+      ? { 'include[]': ['items', 'content_details'] }
+      : {};
+
+    if (this.studentId !== null) {
+      // Module state and completion for the observed student
+      params['student_id'] = String(this.studentId);
+    }
+
+    const modules = await this.getWithPagination<RawModule>(`/courses/${courseId}/modules`, params);
+
+    const moduleNames = new Map(modules.map(m => [m.id, m.name]));
+
+    const normalizeItem = (item: RawModuleItem) => ({
+      id: item.id,
+      title: item.title,
+      type: item.type,
+      indent: item.indent || 0,
+      content_id: item.content_id ?? null,
+      page_url: item.page_url ?? null,
+      url: item.external_url || item.html_url || null,
+      due_at: item.content_details?.due_at ?? null,
+      points_possible: item.content_details?.points_possible ?? null,
+      locked_for_user: item.content_details?.locked_for_user || false,
+      lock_explanation: item.content_details?.lock_explanation || null,
+      completion_requirement: item.completion_requirement ? {
+        type: item.completion_requirement.type,
+        min_score: item.completion_requirement.min_score ?? null,
+        completed: item.completion_requirement.completed || false,
+      } : null,
+    });
+
+    const results = [];
+    for (const module of modules) {
+      let items = module.items;
+      if (includeItems && !items && (module.items_count ?? 0) > 0) {
+        items = await this.getWithPagination<RawModuleItem>(
+          `/courses/${courseId}/modules/${module.id}/items`,
+          this.studentId !== null
+            ? { 'include[]': 'content_details', 'student_id': String(this.studentId) }
+            : { 'include[]': 'content_details' }
+        );
+      }
+
+      const normalizedItems = (items || [])
+        .slice()
+        .sort((a, b) => (a.position ?? 0) - (b.position ?? 0))
+        .map(normalizeItem);
+      const requirements = normalizedItems.filter(i => i.completion_requirement !== null);
+
+      results.push({
+        id: module.id,
+        name: module.name,
+        position: module.position ?? null,
+        state: module.state || null,
+        unlock_at: module.unlock_at ?? null,
+        completed_at: module.completed_at ?? null,
+        require_sequential_progress: module.require_sequential_progress || false,
+        prerequisites: (module.prerequisite_module_ids || []).map(id => ({
+          module_id: id,
+          name: moduleNames.get(id) ?? null,
+        })),
+        requirements_total: requirements.length,
+        requirements_completed: requirements.filter(i => i.completion_requirement!.completed).length,
+        items_count: module.items_count ?? normalizedItems.length,
+        items: includeItems ? normalizedItems : undefined,
+      });
+    }
+
+    // Sort by module position
+    results.sort((a, b) => (a.position ?? 0) - (b.position ?? 0));
+
+    return results;
+  }
+
+  /**
+   * List wiki pages for a course (metadata only, no bodies)
+   * Sorted by most recently updated first
+   */
+  async listPages(courseId: string | number, searchTerm?: string) {
+    interface RawPage {
+      page_id: number;
+      url: string;
+      title: string;
+      updated_at?: string | null;
+      published?: boolean;
+      front_page?: boolean;
+      locked_for_user?: boolean;
+    }
+
+    const params: Record<string, string> = {
+      'sort': 'updated_at',
+      'order': 'desc',
+    };
+    if (searchTerm) {
+      params['search_term'] = searchTerm;
+    }
+
+    const pages = await this.getWithPagination<RawPage>(`/courses/${courseId}/pages`, params);
+
+    // Normalize output - keep only essential fields
+    return pages.map(page => ({
+      page_id: page.page_id,
+      url: page.url,
+      title: page.title,
+      updated_at: page.updated_at || null,
+      published: page.published !== false,
+      front_page: page.front_page || false,
+      locked_for_user: page.locked_for_user || false,
+    }));
+  }
+
+  /**
+   * Get a wiki page body as markdown (or plain text)
+   *
+   * pageUrl is the page slug or numeric page ID; when omitted, the course front page is returned.
+   * Long bodies are returned one window at a time: pass next_cursor back as cursor to continue.
+   */
+  async getPage(
+    courseId: string | number,
+    pageUrl?: string | number,
+    format: TextFormat = 'markdown',
+    cursor?: string,
+    maxChars?: number
+  ) {
+    interface RawPage {
+      page_id: number;
+      url: string;
+      title: string;
+      body?: string | null;
+      updated_at?: string | null;
+      published?: boolean;
+      front_page?: boolean;
+      html_url?: string;
+      locked_for_user?: boolean;
+      lock_explanation?: string;
+    }
+
+    const endpoint = pageUrl !== undefined && pageUrl !== ''
+      ? `/courses/${courseId}/pages/${encodeURIComponent(String(pageUrl))}`
+      : `/courses/${courseId}/front_page`;
+
+    const page = await this.getJson<RawPage>(endpoint);
+    const text = convertHtml(page.body, format, { baseUrl: this.baseUrl });
+
+    return {
+      page_id: page.page_id,
+      url: page.url,
+      title: page.title,
+      updated_at: page.updated_at || null,
+      published: page.published !== false,
+      front_page: page.front_page || false,
+      html_url: page.html_url || null,
+      locked_for_user: page.locked_for_user || false,
+      lock_explanation: page.lock_explanation || null,
+      ...sliceContent(text, cursor, maxChars),
+    };
+  }
+
+  /**
+   * Get the course syllabus (syllabus_body) as markdown (or plain text)
+   * Returns available: false when the course has no syllabus content
+   */
+  async getSyllabus(
+    courseId: string | number,
+    format: TextFormat = 'markdown',
+    cursor?: string,
+    maxChars?: number
+  ) {
+    interface RawCourse {
+      id: number;
+      name: string;
+      course_code?: string;
+      syllabus_body?: string | null;
+    }
+
+    const course = await this.getJson<RawCourse>(`/courses/${courseId}`, {
+      'include[]': 'syllabus_body',
+    });
+    const text = convertHtml(course.syllabus_body, format, { baseUrl: this.baseUrl });
+
+    return {
+      course_id: course.id,
+      course_name: course.name,
+      available: text.length > 0,
+      html_url: `${this.baseUrl}/courses/${course.id}/assignments/syllabus`,
+      ...sliceContent(text, cursor, maxChars),
+    };
+  }
+
+  /**
+   * Get full details for a single assignment
+   *
+   * Includes the description (converted from HTML), rubric criteria and ratings,
+   * attempt and file-type rules, lock explanation, group category and assignment group.
+   * Assignment group and group category names need extra requests; both are best-effort
+   * and fall back to IDs only if Canvas denies access.
+   */
+  async getAssignment(courseId: string | number, assignmentId: string | number, format: TextFormat = 'markdown') {
+    interface RawRating {
+      id?: string;
+      description?: string;
+      long_description?: string;
+      points?: number;
+    }
+
+    interface RawCriterion {
+      id: string;
+      description?: string;
+      long_description?: string;
+      points?: number;
+      ratings?: RawRating[];
+    }
+
+    interface RawAssignment {
+      id: number;
+      name: string;
+      description?: string | null;
+      html_url?: string;
+      due_at?: string | null;
+      unlock_at?: string | null;
+      lock_at?: string | null;
+      points_possible?: number | null;
+      grading_type?: string;
+      submission_types?: string[];
+      allowed_attempts?: number | null;
+      allowed_extensions?: string[];
+      locked_for_user?: boolean;
+      lock_explanation?: string;
+      group_category_id?: number | null;
+      assignment_group_id?: number;
+      rubric?: RawCriterion[];
+      rubric_settings?: { points_possible?: number; title?: string };
+      use_rubric_for_grading?: boolean;
+    }
+
+    interface RawAssignmentGroup {
+      id: number;
+      name: string;
+      group_weight?: number | null;
+    }
+
+    interface RawGroupCategory {
+      id: number;
+      name: string;
+    }
+
+    const assignment = await this.getJson<RawAssignment>(`/courses/${courseId}/assignments/${assignmentId}`);
+
+    let assignmentGroup: { id: number; name: string | null; group_weight: number | null } | null = null;
+    if (assignment.assignment_group_id) {
+      try {
+        const group = await this.getJson<RawAssignmentGroup>(
+          `/courses/${courseId}/assignment_groups/${assignment.assignment_group_id}`
+        );
+        assignmentGroup = { id: group.id, name: group.name, group_weight: group.group_weight ?? null };
+      } catch {
+        assignmentGroup = { id: assignment.assignment_group_id, name: null, group_weight: null };
+      }
+    }
+
+    let groupCategory: { id: number; name: string | null } | null = null;
+    if (assignment.group_category_id) {
+      try {
+        const category = await this.getJson<RawGroupCategory>(`/group_categories/${assignment.group_category_id}`);
+        groupCategory = { id: category.id, name: category.name };
+      } catch {
+        groupCategory = { id: assignment.group_category_id, name: null };
+      }
+    }
+
+    // allowed_attempts: -1 (or null) means unlimited
+    const allowedAttempts = typeof assignment.allowed_attempts === 'number' && assignment.allowed_attempts > 0
+      ? assignment.allowed_attempts
+      : null;
+
+    return {
+      id: assignment.id,
+      course_id: Number(courseId),
+      name: assignment.name,
+      html_url: assignment.html_url || null,
+      due_at: assignment.due_at ?? null,
+      unlock_at: assignment.unlock_at ?? null,
+      lock_at: assignment.lock_at ?? null,
+      points_possible: assignment.points_possible || 0,
+      grading_type: assignment.grading_type || null,
+      submission_types: assignment.submission_types || [],
+      allowed_attempts: allowedAttempts,
+      allowed_extensions: assignment.allowed_extensions || [],
+      locked_for_user: assignment.locked_for_user || false,
+      lock_explanation: assignment.lock_explanation || null,
+      is_group_assignment: groupCategory !== null,
+      group_category: groupCategory,
+      assignment_group: assignmentGroup,
+      rubric: assignment.rubric && assignment.rubric.length > 0 ? {
+        title: assignment.rubric_settings?.title || null,
+        points_possible: assignment.rubric_settings?.points_possible ?? null,
+        used_for_grading: assignment.use_rubric_for_grading || false,
+        criteria: assignment.rubric.map(criterion => ({
+          id: criterion.id,
+          description: criterion.description || null,
+          long_description: criterion.long_description || null,
+          points: criterion.points ?? null,
+          ratings: (criterion.ratings || []).map(rating => ({
+            description: rating.description || null,
+            long_description: rating.long_description || null,
+            points: rating.points ?? null,
+          })),
+        })),
+      } : null,
+      description: convertHtml(assignment.description, format, { baseUrl: this.baseUrl }),
+    };
+  }
+
+  /**
+   * Unified agenda from the Canvas Planner and calendar events APIs
+   *
+   * Merges planner items (assignments, quizzes, discussions, pages with to-do dates,
+   * planner notes, announcements, peer reviews, calendar events) with calendar events
+   * into one chronological feed. Calendar events already returned by the planner are not duplicated.
+   * The planner request covers every course at once, so a planner failure fails the call;
+   * calendar event failures are reported per course in partial_failures.
+   *
+   * Completion semantics (mirrors the Canvas planner UI):
+   * - completed: planner override marked complete, else submitted/graded/excused submission
+   * - dismissed: removed from the planner's opportunities list by the user
+   */
+  async getAgenda(
+    days: number = 7,
+    pastDays: number = 0,
+    includeCompleted: boolean = true,
+    courseIds?: (string | number)[]
+  ) {
+    interface RawPlannerSubmissions {
+      submitted?: boolean;
+      excused?: boolean;
+      graded?: boolean;
+      late?: boolean;
+      missing?: boolean;
+      needs_grading?: boolean;
+      has_feedback?: boolean;
+    }
+
+    interface RawPlannerItem {
+      context_type?: string;
+      course_id?: number;
+      plannable_id: number;
+      plannable_type: string;
+      plannable_date?: string | null;
+      plannable?: {
+        title?: string;
+        name?: string;
+        points_possible?: number | null;
+        end_at?: string | null;
+        all_day?: boolean;
+        location_name?: string | null;
+      };
+      submissions?: RawPlannerSubmissions | false;
+      planner_override?: { marked_complete?: boolean; dismissed?: boolean } | null;
+      html_url?: string;
+      context_name?: string;
+      new_activity?: boolean;
+    }
+
+    interface RawCalendarEvent {
+      id: number;
+      title: string;
+      start_at?: string | null;
+      end_at?: string | null;
+      all_day?: boolean;
+      location_name?: string | null;
+      context_code?: string;
+      html_url?: string;
+    }
+
+    const TYPE_NAMES: Record<string, string> = {
+      assignment: 'assignment',
+      quiz: 'quiz',
+      discussion_topic: 'discussion',
+      wiki_page: 'page',
+      planner_note: 'planner_note',
+      calendar_event: 'calendar_event',
+      announcement: 'announcement',
+      assessment_request: 'peer_review',
+    };
+
+    const targetCourses = await this.getTargetCourses(courseIds);
+    const courseNames = new Map(targetCourses.map(c => [c.id, c.name]));
+
+    const now = new Date();
+    const startDate = new Date(now.getTime() - pastDays * 24 * 60 * 60 * 1000);
+    const endDate = new Date(now.getTime() + days * 24 * 60 * 60 * 1000);
+
+    const courseContexts = targetCourses.map(c => `course_${c.id}`);
+
+    // Personal planner notes and events (user_self) are only included for the user's own, unfiltered
+    // agenda: observers read the student's planner, and course_ids asks for those courses only
+    const coursesOnly = this.studentId !== null || courseIds !== undefined;
+
+    const plannerParams: Record<string, string | string[]> = {
+      'start_date': startDate.toISOString(),
+      'end_date': endDate.toISOString(),
+    };
+    if (this.studentId !== null) {
+      plannerParams['observed_user_id'] = String(this.studentId);
+    }
+    if (coursesOnly) {
+      // Planner defaults to all of the user's contexts
+      plannerParams['context_codes[]'] = courseContexts;
+    }
+    // Without any context code the planner would return every context, so skip the request
+    const plannerItems = coursesOnly && courseContexts.length === 0
+      ? []
+      : await this.getWithPagination<RawPlannerItem>('/planner/items', plannerParams);
+
+    // Calendar events API accepts at most 10 context codes per request; chunks are fetched in
+    // parallel (bounded) and a failed chunk is reported for each course it covers
+    const eventContexts = coursesOnly ? courseContexts : ['user_self', ...courseContexts];
+    const chunks: string[][] = [];
+    for (let i = 0; i < eventContexts.length; i += 10) {
+      chunks.push(eventContexts.slice(i, i + 10));
+    }
+    const outcomes = await mapSettled(chunks, this.concurrency, contexts =>
+      this.getWithPagination<RawCalendarEvent>('/calendar_events', {
+        'type': 'event',
+        'start_date': startDate.toISOString(),
+        'end_date': endDate.toISOString(),
+        'context_codes[]': contexts,
+      }));
+
+    const calendarEvents: RawCalendarEvent[] = [];
+    const failures: PartialFailure[] = [];
+    outcomes.forEach((outcome, i) => {
+      if (outcome.status === 'fulfilled') {
+        calendarEvents.push(...outcome.value);
+        return;
+      }
+      const code = outcome.reason?.code || 'internal_error';
+      for (const context of chunks[i]) {
+        if (context.startsWith('course_')) {
+          const courseId = Number(context.slice('course_'.length));
+          failures.push({ course_id: courseId, code });
+          console.log(JSON.stringify({ level: 'warn', event: 'course_failed', course_id: courseId, code }));
+        }
+      }
+    });
+
+    const agenda: Array<{
+      type: string;
+      id: number;
+      title: string;
+      course_id: number | null;
+      course_name: string | null;
+      date: string | null;
+      end_at: string | null;
+      all_day: boolean;
+      location: string | null;
+      points_possible: number | null;
+      completed: boolean;
+      dismissed: boolean;
+      submission: { submitted: boolean; missing: boolean; late: boolean; graded: boolean; excused: boolean } | null;
+      html_url: string | null;
+    }> = [];
+
+    const seenEvents = new Set<number>();
+
+    for (const item of plannerItems) {
+      const submissions = item.submissions || null;
+      const override = item.planner_override || null;
+      const completed = override?.marked_complete !== undefined && override?.marked_complete !== null
+        ? override.marked_complete
+        : Boolean(submissions && (submissions.submitted || submissions.graded || submissions.excused));
+
+      if (item.plannable_type === 'calendar_event') {
+        seenEvents.add(item.plannable_id);
+      }
+
+      const courseId = item.course_id ?? null;
+      agenda.push({
+        type: TYPE_NAMES[item.plannable_type] || item.plannable_type,
+        id: item.plannable_id,
+        title: item.plannable?.title || item.plannable?.name || '',
+        course_id: courseId,
+        course_name: courseId !== null ? courseNames.get(courseId) ?? item.context_name ?? null : null,
+        date: item.plannable_date || null,
+        end_at: item.plannable?.end_at || null,
+        all_day: item.plannable?.all_day || false,
+        location: item.plannable?.location_name || null,
+        points_possible: item.plannable?.points_possible ?? null,
+        completed,
+        dismissed: override?.dismissed || false,
+        submission: submissions ? {
+          submitted: submissions.submitted || false,
+          missing: submissions.missing || false,
+          late: submissions.late || false,
+          graded: submissions.graded || false,
+          excused: submissions.excused || false,
+        } : null,
+        html_url: item.html_url ? new URL(item.html_url, this.baseUrl).toString() : null,
+      });
+    }
+
+    for (const event of calendarEvents) {
+      if (seenEvents.has(event.id)) {
+        continue;
+      }
+      seenEvents.add(event.id);
+
+      const courseId = event.context_code?.startsWith('course_') ? Number(event.context_code.slice('course_'.length)) : null;
+      agenda.push({
+        type: 'calendar_event',
+        id: event.id,
+        title: event.title,
+        course_id: courseId,
+        course_name: courseId !== null ? courseNames.get(courseId) ?? null : null,
+        date: event.start_at || null,
+        end_at: event.end_at || null,
+        all_day: event.all_day || false,
+        location: event.location_name || null,
+        points_possible: null,
+        completed: false,
+        dismissed: false,
+        submission: null,
+        html_url: event.html_url || null,
+      });
+    }
+
+    const filtered = includeCompleted ? agenda : agenda.filter(item => !item.completed);
+
+    // Sort chronologically; undated items last
+    filtered.sort((a, b) => {
+      const aTime = a.date ? new Date(a.date).getTime() : Infinity;
+      const bTime = b.date ? new Date(b.date).getTime() : Infinity;
+      return aTime - bTime;
+    });
+
+    return {
+      items: filtered,
+      partial_failures: failures,
+    };
+  }
+
+  /**
+   * List discussion topics for a course (announcements excluded)
+   *
+   * user_has_posted is only knowable for "post before you see replies" topics
+   * (require_initial_post), where Canvas hides replies until the user posts; otherwise it is null.
+   */
+  async listDiscussions(courseId: string | number, unreadOnly: boolean = false, searchTerm?: string) {
+    interface RawTopic {
+      id: number;
+      title: string;
+      posted_at?: string | null;
+      last_reply_at?: string | null;
+      todo_date?: string | null;
+      lock_at?: string | null;
+      locked_for_user?: boolean;
+      pinned?: boolean;
+      require_initial_post?: boolean;
+      user_can_see_posts?: boolean;
+      discussion_subentry_count?: number;
+      unread_count?: number;
+      read_state?: string;
+      html_url?: string;
+      author?: { display_name?: string };
+      user_name?: string;
+      assignment?: { due_at?: string | null; points_possible?: number | null };
+    }
+
+    const params: Record<string, string> = {};
+    if (unreadOnly) {
+      params['filter_by'] = 'unread';
+    }
+    if (searchTerm) {
+      params['search_term'] = searchTerm;
+    }
+
+    const topics = await this.getWithPagination<RawTopic>(`/courses/${courseId}/discussion_topics`, params);
+
+    // Normalize output - keep only essential fields
+    return topics.map(topic => ({
+      id: topic.id,
+      title: topic.title,
+      author: topic.author?.display_name || topic.user_name || null,
+      posted_at: topic.posted_at || null,
+      last_reply_at: topic.last_reply_at || null,
+      due_at: topic.assignment?.due_at ?? null,
+      todo_date: topic.todo_date || null,
+      points_possible: topic.assignment?.points_possible ?? null,
+      graded: Boolean(topic.assignment),
+      pinned: topic.pinned || false,
+      locked_for_user: topic.locked_for_user || false,
+      require_initial_post: topic.require_initial_post || false,
+      user_has_posted: topic.require_initial_post ? topic.user_can_see_posts !== false : null,
+      entry_count: topic.discussion_subentry_count || 0,
+      unread_count: topic.unread_count || 0,
+      read_state: topic.read_state === 'read' ? 'read' : 'unread',
+      html_url: topic.html_url || null,
+    }));
+  }
+
+  /**
+   * Get a discussion topic with its full threaded entry tree
+   *
+   * Entries come from the topic's view endpoint (all pages followed via Link headers)
+   * and are rendered as nested text: "- Author (timestamp) [unread]: message", one indent level per reply depth.
+   * Entries newer than Canvas's cached view (new_entries) are attached to their parents.
+   * Long threads are returned one window at a time: pass next_cursor back as cursor to continue.
+   */
+  async getDiscussion(
+    courseId: string | number,
+    topicId: string | number,
+    format: TextFormat = 'markdown',
+    cursor?: string,
+    maxChars?: number
+  ) {
+    interface RawTopic {
+      id: number;
+      title: string;
+      message?: string | null;
+      posted_at?: string | null;
+      require_initial_post?: boolean;
+      user_can_see_posts?: boolean;
+      discussion_subentry_count?: number;
+      unread_count?: number;
+      html_url?: string;
+      author?: { display_name?: string };
+      user_name?: string;
+      assignment?: { due_at?: string | null; points_possible?: number | null };
+    }
+
+    interface RawEntry {
+      id: number;
+      user_id?: number;
+      parent_id?: number | null;
+      message?: string | null;
+      created_at?: string | null;
+      deleted?: boolean;
+      replies?: RawEntry[];
+    }
+
+    interface RawViewPage {
+      participants?: Array<{ id: number; display_name?: string }>;
+      unread_entries?: number[];
+      view?: RawEntry[];
+      new_entries?: RawEntry[];
+    }
+
+    const topic = await this.getJson<RawTopic>(`/courses/${courseId}/discussion_topics/${topicId}`);
+
+    let pages: RawViewPage[] = [];
+    let entriesHidden = false;
+    if (topic.require_initial_post && topic.user_can_see_posts === false) {
+      entriesHidden = true;
+    } else {
+      try {
+        pages = await this.getPages<RawViewPage>(`/courses/${courseId}/discussion_topics/${topicId}/view`, {
+          'include_new_entries': '1',
+        });
+      } catch (error: any) {
+        // 403 when replies are hidden until the user posts (throttling is reported as rate_limited)
+        if (error?.code !== 'canvas_api_error' || error?.status !== 403) {
+          throw error;
+        }
+        entriesHidden = true;
+      }
+    }
+
+    const participants = new Map<number, string>();
+    const unread = new Set<number>();
+    const roots: RawEntry[] = [];
+    const newEntries: RawEntry[] = [];
+    for (const page of pages) {
+      (page.participants || []).forEach(p => participants.set(p.id, p.display_name || `User ${p.id}`));
+      (page.unread_entries || []).forEach(id => unread.add(id));
+      roots.push(...(page.view || []));
+      newEntries.push(...(page.new_entries || []));
+    }
+
+    // Attach new entries to their parents (or as new top-level entries)
+    const byId = new Map<number, RawEntry>();
+    const index = (entries: RawEntry[]) => {
+      for (const entry of entries) {
+        byId.set(entry.id, entry);
+        index(entry.replies || []);
+      }
+    };
+    index(roots);
+    for (const entry of newEntries) {
+      if (byId.has(entry.id)) continue;
+      const parent = entry.parent_id ? byId.get(entry.parent_id) : undefined;
+      if (parent) {
+        parent.replies = [...(parent.replies || []), entry];
+      } else {
+        roots.push(entry);
+      }
+      byId.set(entry.id, entry);
+    }
+
+    const lines: string[] = [];
+    const render = (entries: RawEntry[], depth: number) => {
+      const sorted = entries.slice().sort((a, b) =>
+        new Date(a.created_at || 0).getTime() - new Date(b.created_at || 0).getTime());
+      for (const entry of sorted) {
+        const indent = '  '.repeat(depth);
+        const author = entry.user_id !== undefined ? participants.get(entry.user_id) || `User ${entry.user_id}` : 'Unknown';
+        const body = entry.deleted ? '[deleted]' : convertHtml(entry.message, 'text', { baseUrl: this.baseUrl });
+        const flag = unread.has(entry.id) ? ' [unread]' : '';
+        const [first, ...rest] = body.split('\n');
+        lines.push(`${indent}- ${author} (${entry.created_at || 'unknown time'})${flag}: ${first || ''}`);
+        rest.forEach(line => lines.push(line ? `${indent}  ${line}` : ''));
+        render(entry.replies || [], depth + 1);
+      }
+    };
+    render(roots, 0);
+
+    return {
+      id: topic.id,
+      title: topic.title,
+      author: topic.author?.display_name || topic.user_name || null,
+      posted_at: topic.posted_at || null,
+      due_at: topic.assignment?.due_at ?? null,
+      points_possible: topic.assignment?.points_possible ?? null,
+      require_initial_post: topic.require_initial_post || false,
+      user_has_posted: topic.require_initial_post ? !entriesHidden : null,
+      entries_hidden: entriesHidden,
+      entry_count: byId.size || topic.discussion_subentry_count || 0,
+      unread_count: entriesHidden ? topic.unread_count || 0 : unread.size,
+      html_url: topic.html_url || null,
+      message: convertHtml(topic.message, format, { baseUrl: this.baseUrl }),
+      ...sliceContent(lines.join('\n'), cursor, maxChars),
+    };
+  }
+
+  /**
+   * List Canvas Inbox conversations
+   *
+   * Listing never changes read state. Date window (since/until) applies to last_message_at
+   * and is filtered client-side; course filtering uses Canvas's filter[] (any of the given courses).
+   */
+  async listConversations(
+    scope: 'inbox' | 'unread' | 'starred' | 'sent' | 'archived' = 'inbox',
+    courseIds?: (string | number)[],
+    since?: string,
+    until?: string
+  ) {
+    interface RawConversation {
+      id: number;
+      subject?: string | null;
+      workflow_state?: string;
+      last_message?: string | null;
+      last_message_at?: string | null;
+      message_count?: number;
+      starred?: boolean;
+      context_name?: string | null;
+      context_code?: string | null;
+      participants?: Array<{ id: number; name?: string }>;
+    }
+
+    const params: Record<string, string | string[]> = {
+      'scope': scope,
+    };
+    if (courseIds && courseIds.length > 0) {
+      params['filter[]'] = courseIds.map(id => `course_${id}`);
+      params['filter_mode'] = 'or';
+    }
+
+    const conversations = await this.getWithPagination<RawConversation>('/conversations', params);
+
+    const sinceTime = since ? new Date(since).getTime() : null;
+    const untilTime = until ? new Date(until).getTime() : null;
+
+    const filtered = conversations.filter(c => {
+      if (sinceTime === null && untilTime === null) return true;
+      if (!c.last_message_at) return false;
+      const t = new Date(c.last_message_at).getTime();
+      return (sinceTime === null || t >= sinceTime) && (untilTime === null || t <= untilTime);
+    });
+
+    // Normalize output - keep only essential fields
+    return filtered.map(c => {
+      const courseId = c.context_code?.startsWith('course_') ? Number(c.context_code.slice('course_'.length)) : null;
+      return {
+        id: c.id,
+        subject: c.subject || null,
+        course_id: courseId,
+        context_name: c.context_name || null,
+        participants: (c.participants || []).map(p => p.name || `User ${p.id}`),
+        message_count: c.message_count || 0,
+        last_message_at: c.last_message_at || null,
+        last_message: c.last_message || null,
+        read_state: c.workflow_state === 'unread' ? 'unread' : 'read',
+        starred: c.starred || false,
+      };
+    });
+  }
+
+  /**
+   * Get a conversation with all of its messages, oldest first
+   *
+   * Canvas marks a conversation as read when it is fetched unless auto_mark_as_read=false,
+   * so read state is left untouched unless markAsRead is explicitly requested.
+   */
+  async getConversation(conversationId: string | number, markAsRead: boolean = false) {
+    interface RawMessage {
+      id: number;
+      created_at?: string | null;
+      body?: string | null;
+      author_id?: number;
+      generated?: boolean;
+      attachments?: Array<{ display_name?: string; filename?: string }>;
+    }
+
+    interface RawConversation {
+      id: number;
+      subject?: string | null;
+      workflow_state?: string;
+      starred?: boolean;
+      context_name?: string | null;
+      context_code?: string | null;
+      participants?: Array<{ id: number; name?: string }>;
+      messages?: RawMessage[];
+    }
+
+    // Marking as read is a side effect, so that request must always reach Canvas
+    const client = markAsRead ? this.withCacheBypass() : this;
+    const conversation = await client.getJson<RawConversation>(`/conversations/${conversationId}`, {
+      'auto_mark_as_read': markAsRead ? 'true' : 'false',
+    });
+
+    const names = new Map((conversation.participants || []).map(p => [p.id, p.name || `User ${p.id}`]));
+    const courseId = conversation.context_code?.startsWith('course_')
+      ? Number(conversation.context_code.slice('course_'.length))
+      : null;
+
+    const messages = (conversation.messages || [])
+      .filter(m => !m.generated)
+      .map(m => ({
+        id: m.id,
+        author: m.author_id !== undefined ? names.get(m.author_id) || `User ${m.author_id}` : null,
+        created_at: m.created_at || null,
+        body: m.body || '',
+        attachments: (m.attachments || []).map(a => a.display_name || a.filename || 'attachment'),
+      }))
+      .sort((a, b) => new Date(a.created_at || 0).getTime() - new Date(b.created_at || 0).getTime());
+
+    return {
+      id: conversation.id,
+      subject: conversation.subject || null,
+      course_id: courseId,
+      context_name: conversation.context_name || null,
+      participants: [...names.values()],
+      read_state: markAsRead ? 'read' : conversation.workflow_state === 'unread' ? 'unread' : 'read',
+      starred: conversation.starred || false,
+      messages,
+    };
+  }
+
+  /**
+   * Fetch the inputs of the course grade model: weighting flag, assignment groups
+   * with weights and drop rules, and the user's score on every assignment
+   */
+  private async getGradeModel(courseId: string | number) {
+    interface RawCourse {
+      id: number;
+      name: string;
+      apply_assignment_group_weights?: boolean;
+      grading_standard_id?: number | null;
+    }
+
+    interface RawGroupAssignment {
+      id: number;
+      name: string;
+      points_possible?: number | null;
+      due_at?: string | null;
+      published?: boolean;
+      omit_from_final_grade?: boolean;
+      submission?: {
+        score?: number | null;
+        excused?: boolean;
+        workflow_state?: string;
+      };
+    }
+
+    interface RawAssignmentGroup {
+      id: number;
+      name: string;
+      position?: number;
+      group_weight?: number | null;
+      rules?: {
+        drop_lowest?: number;
+        drop_highest?: number;
+        never_drop?: number[];
+      };
+      assignments?: RawGroupAssignment[];
+    }
+
+    const course = await this.getJson<RawCourse>(`/courses/${courseId}`);
+    const rawGroups = await this.getWithPagination<RawAssignmentGroup>(`/courses/${courseId}/assignment_groups`, {
+      'include[]': this.studentId !== null ? ['assignments'] : ['assignments', 'submission'],
+    });
+
+    if (this.studentId !== null) {
+      // include[]=submission only returns the caller's own submissions; fetch the student's separately
+      interface RawStudentSubmission {
+        assignment_id: number;
+        score?: number | null;
+        excused?: boolean;
+        workflow_state?: string;
+      }
+      const submissions = await this.getWithPagination<RawStudentSubmission>(`/courses/${courseId}/students/submissions`, {
+        'student_ids[]': String(this.studentId),
+      });
+      const byAssignment = new Map(submissions.map(s => [s.assignment_id, s]));
+      for (const group of rawGroups) {
+        for (const assignment of group.assignments || []) {
+          assignment.submission = byAssignment.get(assignment.id);
+        }
+      }
+    }
+
+    rawGroups.sort((a, b) => (a.position ?? 0) - (b.position ?? 0));
+
+    const dueDates = new Map<number, string | null>();
+    const groups: GradeGroup[] = rawGroups.map(group => ({
+      id: group.id,
+      name: group.name,
+      weight: group.group_weight || 0,
+      rules: {
+        drop_lowest: group.rules?.drop_lowest || 0,
+        drop_highest: group.rules?.drop_highest || 0,
+        never_drop: group.rules?.never_drop || [],
+      },
+      items: (group.assignments || [])
+        .filter(a => a.published !== false)
+        .map(a => {
+          dueDates.set(a.id, a.due_at ?? null);
+          return {
+            id: a.id,
+            name: a.name,
+            score: a.submission?.score !== null && a.submission?.score !== undefined ? a.submission.score : null,
+            points_possible: a.points_possible || 0,
+            excused: a.submission?.excused || false,
+            omitted: a.omit_from_final_grade || false,
+          };
+        }),
+    }));
+
+    return {
+      course_id: course.id,
+      course_name: course.name,
+      weighted: course.apply_assignment_group_weights || false,
+      grading_standard_id: course.grading_standard_id ?? null,
+      groups,
+      dueDates,
+    };
+  }
+
+  /**
+   * Grade breakdown by assignment group
+   *
+   * Recomputes the current score from visible grades (see grades.ts for the model) and reports
+   * each group's earned/possible points, percentage, weighted contribution and the percentage
+   * points it costs the course grade, so the weakest category is easy to spot.
+   * May differ from Canvas's own score when grades are unposted or muted.
+   */
+  async getGradeBreakdown(courseId: string | number) {
+    const model = await this.getGradeModel(courseId);
+    const result = computeCourseScore(model.groups, model.weighted);
+
+    const groups = model.groups.map((group, index) => {
+      const scored = result.groups[index];
+      const dropped = new Set(scored.dropped);
+      return {
+        id: group.id,
+        name: group.name,
+        weight: model.weighted ? group.weight : null,
+        rules: group.rules,
+        earned: round2(scored.earned),
+        possible: round2(scored.possible),
+        percent: round2(scored.percent),
+        weighted_contribution: round2(scored.contribution),
+        points_lost: round2(scored.points_lost),
+        assignments: group.items.map(item => ({
+          id: item.id,
+          name: item.name,
+          due_at: model.dueDates.get(item.id) ?? null,
+          score: item.score,
+          points_possible: item.points_possible,
+          graded: item.score !== null,
+          excused: item.excused,
+          omitted: item.omitted,
+          dropped: dropped.has(item.id),
+        })),
+      };
+    });
+
+    return {
+      course_id: model.course_id,
+      course_name: model.course_name,
+      weighted: model.weighted,
+      current_score: round2(result.score),
+      groups,
+    };
+  }
+
+  /**
+   * Resolve the course's grading standard (letter grade cutoffs)
+   * Falls back to the Canvas default scheme when the course has none or it cannot be read
+   */
+  private async getGradingScheme(courseId: string | number, gradingStandardId: number | null) {
+    interface RawGradingStandard {
+      id: number;
+      title: string;
+      grading_scheme?: GradingSchemeEntry[];
+    }
+
+    if (gradingStandardId !== null) {
+      try {
+        const standards = await this.getWithPagination<RawGradingStandard>(`/courses/${courseId}/grading_standards`);
+        const standard = standards.find(s => s.id === gradingStandardId);
+        if (standard && standard.grading_scheme && standard.grading_scheme.length > 0) {
+          return { title: standard.title, source: 'course' as const, scheme: standard.grading_scheme };
+        }
+      } catch {
+        // Best-effort: fall through to the default scheme
+      }
+    }
+
+    return { title: 'Canvas default', source: 'default' as const, scheme: DEFAULT_GRADING_SCHEME };
+  }
+
+  /**
+   * What-if grade calculator
+   *
+   * Recomputes the course score with hypothetical scores (assignment ID → points) using the
+   * course's group weights, drop rules and grading standard. When solveFor is given, also finds
+   * the minimum score on that assignment needed to reach the target letter grade or percentage
+   * (searching up to maxPercent of its points, to allow extra credit).
+   */
+  async calculateWhatIf(
+    courseId: string | number,
+    hypotheticalScores: Array<{ assignment_id: string | number; score: number }> = [],
+    solveFor?: { assignment_id: string | number; target_grade?: string; target_score?: number; max_percent?: number }
+  ) {
+    const model = await this.getGradeModel(courseId);
+    const grading = await this.getGradingScheme(courseId, model.grading_standard_id);
+
+    const items = new Map(model.groups.flatMap(g => g.items).map(i => [i.id, i]));
+    const unknownAssignment = (id: string | number) => {
+      const err = new Error(`Assignment ${id} is not in this course's assignment groups`);
+      (err as any).code = 'invalid_arguments';
+      return err;
+    };
+
+    const scores = new Map<number, number>();
+    for (const entry of hypotheticalScores) {
+      const id = Number(entry.assignment_id);
+      if (!items.has(id)) {
+        throw unknownAssignment(entry.assignment_id);
+      }
+      scores.set(id, entry.score);
+    }
+
+    const current = computeCourseScore(model.groups, model.weighted);
+    const whatIfGroups = applyWhatIf(model.groups, scores);
+    const whatIf = computeCourseScore(whatIfGroups, model.weighted);
+
+    let solve = null;
+    if (solveFor) {
+      const id = Number(solveFor.assignment_id);
+      const item = items.get(id);
+      if (!item) {
+        throw unknownAssignment(solveFor.assignment_id);
+      }
+
+      let targetScore: number;
+      let targetGrade: string | null = null;
+      if (solveFor.target_grade !== undefined) {
+        const entry = grading.scheme.find(e => e.name.toLowerCase() === solveFor.target_grade!.trim().toLowerCase());
+        if (!entry) {
+          const err = new Error(`target_grade must be one of: ${grading.scheme.map(e => e.name).join(', ')}`);
+          (err as any).code = 'invalid_arguments';
+          throw err;
+        }
+        targetGrade = entry.name;
+        targetScore = entry.value * 100;
+      } else if (solveFor.target_score !== undefined) {
+        targetScore = solveFor.target_score;
+        targetGrade = letterGrade(targetScore, grading.scheme);
+      } else {
+        const err = new Error('solve_for requires target_grade or target_score');
+        (err as any).code = 'invalid_arguments';
+        throw err;
+      }
+
+      const maxScore = item.points_possible * ((solveFor.max_percent ?? 100) / 100);
+      const required = solveRequiredScore(whatIfGroups, model.weighted, id, targetScore, maxScore);
+
+      solve = {
+        assignment_id: id,
+        name: item.name,
+        points_possible: item.points_possible,
+        target_grade: targetGrade,
+        target_score: round2(targetScore),
+        achievable: required !== null,
+        required_score: required,
+        required_percent: required !== null && item.points_possible > 0
+          ? round2((required / item.points_possible) * 100)
+          : null,
+      };
+    }
+
+    return {
+      course_id: model.course_id,
+      course_name: model.course_name,
+      weighted: model.weighted,
+      grading_standard: grading.title,
+      grading_standard_source: grading.source,
+      current: {
+        score: round2(current.score),
+        grade: letterGrade(current.score, grading.scheme),
+      },
+      what_if: {
+        score: round2(whatIf.score),
+        grade: letterGrade(whatIf.score, grading.scheme),
+      },
+      hypothetical_scores: [...scores.entries()].map(([id, score]) => ({
+        assignment_id: id,
+        name: items.get(id)!.name,
+        score,
+        points_possible: items.get(id)!.points_possible,
+      })),
+      groups: model.groups.map((group, index) => ({
+        id: group.id,
+        name: group.name,
+        weight: model.weighted ? group.weight : null,
+        percent: round2(whatIf.groups[index].percent),
+        weighted_contribution: round2(whatIf.groups[index].contribution),
+      })),
+      solve,
+    };
+  }
+
+  /**
+   * Report changes since a timestamp, or since the last what_changed call
+   *
+   * Refreshes assignments and grades for the target courses first (which records a new
+   * snapshot), then returns change events detected after `since`. Courses seen for the first
+   * time only establish a baseline. Courses are refreshed in parallel (bounded); courses that
+   * fail to load are reported in partial_failures.
+   *
+   * The last-check time is global, so only a default call (no since, no courseIds) moves it;
+   * narrower calls would otherwise hide other courses' events from the next default call.
+   * With markChecked false it is never moved.
+   */
+  async whatChanged(since?: string, courseIds?: (string | number)[], markChecked: boolean = true) {
+    if (!this.snapshots) {
+      const e = new Error('Snapshot store is not configured (set DATA_DIR)');
+      (e as any).code = 'snapshots_disabled';
+      throw e;
+    }
+
+    const sinceValue = since ?? this.snapshots.getLastCheckedAt();
+    const hadBaseline = this.snapshots.hasBaseline();
+
+    const targetCourses = await this.getTargetCourses(courseIds);
+    const { results, failures } = await this.getAssignmentsForCourses(targetCourses);
+    for (const { course, value } of results) {
+      // Records the assignment snapshot
+      this.processAssignments(course.id, value, true, 'all');
+    }
+    const grades = await this.forEachCourse(results.map(r => r.course), course => this.getCourseGrades(course.id));
+    failures.push(...grades.failures);
+
+    // Mark the check after refreshing, so events reported now are not reported again next time
+    const checkedAt = new Date().toISOString();
+    const events = this.snapshots.eventsSince(sinceValue, targetCourses.map(c => c.id));
+    if (markChecked && since === undefined && courseIds === undefined) {
+      this.snapshots.markChecked(checkedAt);
+    }
+
+    const strip = ({ type, ...rest }: ChangeEvent) => rest;
+    const ofType = (type: ChangeEvent['type']) => events.filter(e => e.type === type).map(strip);
+
+    return {
+      since: sinceValue,
+      checked_at: checkedAt,
+      baseline_created: !hadBaseline,
+      total_changes: events.length,
+      new_grades: ofType('new_grade'),
+      score_changes: ofType('score_change'),
+      new_assignments: ofType('new_assignment'),
+      due_date_changes: ofType('due_date_change'),
+      newly_missing: ofType('newly_missing'),
+      course_grade_changes: ofType('course_grade_change'),
+      partial_failures: failures,
+    };
   }
 }
@@ -0,0 +1,271 @@
+/**
+ * Course grade model: assignment groups, weights and drop rules
+ *
+ * Mirrors how Canvas computes the "current" score from visible grades:
+ * - Only graded, non-excused assignments that count toward the final grade are included
+ * - Drop rules apply per group: drop_lowest first, then drop_highest; never_drop items are kept
+ * - Weighted courses: each group contributes weight × group percentage, normalized over
+ *   groups that have graded work; unweighted courses: total earned / total possible
+ */
+
+export interface GradeItem {
+  id: number;
+  name: string;
+  score: number | null;
+  points_possible: number;
+  excused: boolean;
+  /** Assignment is excluded from the final grade (omit_from_final_grade) */
+  omitted: boolean;
+}
+
+export interface DropRules {
+  drop_lowest: number;
+  drop_highest: number;
+  never_drop: number[];
+}
+
+export interface GradeGroup {
+  id: number;
+  name: string;
+  weight: number;
+  rules: DropRules;
+  items: GradeItem[];
+}
+
+export interface GroupScore {
+  id: number;
+  earned: number;
+  possible: number;
+  /** Group percentage (0-100), null when nothing in the group is graded */
+  percent: number | null;
+  dropped: number[];
+  /** Percentage points of the course score this group contributes */
+  contribution: number | null;
+  /** Percentage points of the course score lost in this group */
+  points_lost: number | null;
+}
+
+export interface CourseScore {
+  /** Course percentage (0-100), null when nothing is graded */
+  score: number | null;
+  groups: GroupScore[];
+}
+
+function ratio(items: GradeItem[]): number {
+  const earned = items.reduce((sum, i) => sum + (i.score ?? 0), 0);
+  const possible = items.reduce((sum, i) => sum + i.points_possible, 0);
+  if (possible === 0) {
+    return earned > 0 ? Infinity : 0;
+  }
+  return earned / possible;
+}
+
+/**
+ * Drop `count` items, choosing the set that leaves the highest (drop lowest) or lowest
+ * (drop highest) kept group ratio, as Canvas does. Always keeps one item.
+ *
+ * Searches over the kept ratio q: rank droppable items by score - q × points possible, keep the
+ * best, recompute q from the kept set (never_drop items included) and repeat until q stops improving.
+ */
+function dropItems(items: GradeItem[], count: number, neverDrop: Set<number>, lowest: boolean): { kept: GradeItem[]; dropped: GradeItem[] } {
+  const fixed = items.filter(i => neverDrop.has(i.id));
+  const droppable = items.filter(i => !neverDrop.has(i.id));
+  const keepCount = Math.max(droppable.length - count, fixed.length > 0 ? 0 : 1);
+
+  if (count <= 0 || keepCount >= droppable.length) {
+    return { kept: items, dropped: [] };
+  }
+
+  const rank = (value: (item: GradeItem) => number) =>
+    droppable
+      .map(item => ({ item, value: value(item) }))
+      .sort((a, b) => (lowest ? b.value - a.value : a.value - b.value))
+      .slice(0, keepCount)
+      .map(r => r.item);
+
+  let keptDroppable: GradeItem[];
+  if (droppable.every(i => i.points_possible === 0)) {
+    // Nothing to weigh against: keep by raw score
+    keptDroppable = rank(i => i.score ?? 0);
+  } else {
+    // Start from the items with the most points possible so the first ratio is finite
+    keptDroppable = droppable.slice().sort((a, b) => b.points_possible - a.points_possible).slice(0, keepCount);
+    let q = ratio([...fixed, ...keptDroppable]);
+    while (Number.isFinite(q)) {
+      const candidate = rank(i => (i.score ?? 0) - q * i.points_possible);
+      const next = ratio([...fixed, ...candidate]);
+      if (lowest ? next <= q + 1e-12 : next >= q - 1e-12) break;
+      keptDroppable = candidate;
+      q = next;
+    }
+  }
+
+  const keptIds = new Set(keptDroppable.map(i => i.id));
+  return {
+    kept: items.filter(i => neverDrop.has(i.id) || keptIds.has(i.id)),
+    dropped: droppable.filter(i => !keptIds.has(i.id)),
+  };
+}
+
+/**
+ * Score a single assignment group after applying its drop rules
+ */
+export function scoreGroup(group: GradeGroup): { earned: number; possible: number; percent: number | null; dropped: number[] } {
+  const graded = group.items.filter(i => i.score !== null && !i.excused && !i.omitted);
+  const neverDrop = new Set(group.rules.never_drop);
+
+  const afterLowest = dropItems(graded, group.rules.drop_lowest, neverDrop, true);
+  const afterHighest = dropItems(afterLowest.kept, group.rules.drop_highest, neverDrop, false);
+  const kept = afterHighest.kept;
+
+  const earned = kept.reduce((sum, i) => sum + (i.score ?? 0), 0);
+  const possible = kept.reduce((sum, i) => sum + i.points_possible, 0);
+
+  return {
+    earned,
+    possible,
+    percent: possible > 0 ? (earned / possible) * 100 : null,
+    dropped: [...afterLowest.dropped, ...afterHighest.dropped].map(i => i.id),
+  };
+}
+
+/**
+ * Compute the course score and each group's share of it
+ */
+export function computeCourseScore(groups: GradeGroup[], weighted: boolean): CourseScore {
+  const scored = groups.map(group => ({ group, ...scoreGroup(group) }));
+
+  if (weighted) {
+    // Only groups with graded work count; their weights are renormalized (Canvas current score)
+    const active = scored.filter(s => s.percent !== null && s.group.weight > 0);
+    const totalWeight = active.reduce((sum, s) => sum + s.group.weight, 0);
+
+    return {
+      score: totalWeight > 0
+        ? active.reduce((sum, s) => sum + s.group.weight * (s.percent as number), 0) / totalWeight
+        : null,
+      groups: scored.map(s => {
+        const share = totalWeight > 0 && s.percent !== null && s.group.weight > 0 ? s.group.weight / totalWeight : null;
+        return {
+          id: s.group.id,
+          earned: s.earned,
+          possible: s.possible,
+          percent: s.percent,
+          dropped: s.dropped,
+          contribution: share !== null ? share * (s.percent as number) : null,
+          points_lost: share !== null ? share * (100 - (s.percent as number)) : null,
+        };
+      }),
+    };
+  }
+
+  const totalPossible = scored.reduce((sum, s) => sum + s.possible, 0);
+  const totalEarned = scored.reduce((sum, s) => sum + s.earned, 0);
+
+  return {
+    score: totalPossible > 0 ? (totalEarned / totalPossible) * 100 : null,
+    groups: scored.map(s => ({
+      id: s.group.id,
+      earned: s.earned,
+      possible: s.possible,
+      percent: s.percent,
+      dropped: s.dropped,
+      contribution: totalPossible > 0 && s.possible > 0 ? (s.earned / totalPossible) * 100 : null,
+      points_lost: totalPossible > 0 && s.possible > 0 ? ((s.possible - s.earned) / totalPossible) * 100 : null,
+    })),
+  };
+}
+
+/**
+ * Round to two decimals for output
+ */
+export function round2(value: number | null): number | null {
+  return value === null || !Number.isFinite(value) ? value : Math.round(value * 100) / 100;
+}
+
+export interface GradingSchemeEntry {
+  name: string;
+  /** Lower bound as a fraction (0-1) */
+  value: number;
+}
+
+/**
+ * Canvas's default grading scheme, used when a course has no grading standard of its own
+ */
+export const DEFAULT_GRADING_SCHEME: GradingSchemeEntry[] = [
+  { name: 'A', value: 0.94 },
+  { name: 'A-', value: 0.9 },
+  { name: 'B+', value: 0.87 },
+  { name: 'B', value: 0.84 },
+  { name: 'B-', value: 0.8 },
+  { name: 'C+', value: 0.77 },
+  { name: 'C', value: 0.74 },
+  { name: 'C-', value: 0.7 },
+  { name: 'D+', value: 0.67 },
+  { name: 'D', value: 0.64 },
+  { name: 'D-', value: 0.61 },
+  { name: 'F', value: 0 },
+];
+
+/**
+ * Map a course percentage to a letter grade using a grading scheme
+ */
+export function letterGrade(score: number | null, scheme: GradingSchemeEntry[]): string | null {
+  if (score === null) {
+    return null;
+  }
+  const sorted = scheme.slice().sort((a, b) => b.value - a.value);
+  const entry = sorted.find(e => score >= e.value * 100);
+  return entry ? entry.name : sorted[sorted.length - 1]?.name ?? null;
+}
+
+/**
+ * Apply hypothetical scores (assignment id → points) to a grade model
+ * A hypothetical score counts as graded and clears the excused flag
+ */
+export function applyWhatIf(groups: GradeGroup[], scores: Map<number, number>): GradeGroup[] {
+  return groups.map(group => ({
+    ...group,
+    items: group.items.map(item => scores.has(item.id)
+      ? { ...item, score: scores.get(item.id) as number, excused: false }
+      : item),
+  }));
+}
+
+/**
+ * Find the minimum score on one assignment that brings the course score to targetScore
+ *
+ * Binary search over [0, maxScore], rounded to 0.01 points; the course score never decreases as a
+ * single assignment's score increases. Returns null when even maxScore is not enough.
+ */
+export function solveRequiredScore(
+  groups: GradeGroup[],
+  weighted: boolean,
+  assignmentId: number,
+  targetScore: number,
+  maxScore: number
+): number | null {
+  const scoreWith = (points: number) =>
+    computeCourseScore(applyWhatIf(groups, new Map([[assignmentId, points]])), weighted).score ?? 0;
+
+  if (scoreWith(maxScore) < targetScore) {
+    return null;
+  }
+  if (scoreWith(0) >= targetScore) {
+    return 0;
+  }
+
+  let low = 0;
+  let high = maxScore;
+  while (high - low > 0.005) {
+    const mid = (low + high) / 2;
+    if (scoreWith(mid) >= targetScore) {
+      high = mid;
+    } else {
+      low = mid;
+    }
+  }
+  // Round to the smallest 0.01 step that still reaches the target
+  const rounded = Math.floor(high * 100) / 100;
+  return scoreWith(rounded) >= targetScore ? rounded : Math.round((rounded + 0.01) * 100) / 100;
+}
@@ -0,0 +1,424 @@
+/**
+ * Minimal HTML conversion for Canvas rich content (announcements, pages, descriptions)
+ *
+ * Canvas stores user-authored content as HTML from its rich content editor. Models
+ * only need the text structure, so this converts to compact markdown or plain text:
+ * - Keeps headings, paragraphs, lists, tables, links, images, emphasis and code
+ * - Drops scripts, styles and other non-content elements
+ * - Lenient parser: unclosed tags are closed implicitly, stray closing tags are ignored
+ */
+
+export type TextFormat = 'text' | 'markdown';
+
+export interface HtmlConvertOptions {
+  /** Canvas base URL used to absolutize relative links (e.g. "/courses/1/files/2") */
+  baseUrl?: string;
+}
+
+interface HtmlNode {
+  tag: string;
+  attrs: Record<string, string>;
+  children: Array<HtmlNode | string>;
+}
+
+interface RenderContext {
+  format: TextFormat;
+  baseUrl?: string;
+  pre: boolean;
+}
+
+const VOID_TAGS = new Set([
+  'area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr',
+]);
+
+// Elements whose content is never shown to the reader
+const DROP_TAGS = new Set(['script', 'style', 'head', 'noscript', 'template', 'svg', 'button', 'select', 'form']);
+
+// Raw text elements: content must be skipped without tokenizing
+const RAW_TEXT_TAGS = new Set(['script', 'style']);
+
+const BLOCK_TAGS = new Set([
+  'p', 'div', 'section', 'article', 'header', 'footer', 'main', 'aside', 'nav', 'figure', 'figcaption',
+  'address', 'details', 'summary', 'dl', 'dt', 'dd', 'center',
+]);
+
+// Opening one of these implicitly closes an open element of the listed tags
+const IMPLICIT_CLOSE: Record<string, string[]> = {
+  li: ['li'],
+  p: ['p'],
+  tr: ['tr', 'td', 'th'],
+  td: ['td', 'th'],
+  th: ['td', 'th'],
+  dt: ['dt', 'dd'],
+  dd: ['dt', 'dd'],
+};
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ',
+  ndash: '–', mdash: '—', hellip: '…', bull: '•', middot: '·',
+  lsquo: '‘', rsquo: '’', ldquo: '“', rdquo: '”',
+  copy: '©', reg: '®', trade: '™', deg: '°', times: '×', divide: '÷',
+  plusmn: '±', frac12: '½', frac14: '¼', frac34: '¾', larr: '←', rarr: '→',
+};
+
+/**
+ * Decode HTML character references (named subset plus all numeric forms)
+ */
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-fA-F]+|#[0-9]+|[a-zA-Z][a-zA-Z0-9]*);/g, (match, ref: string) => {
+    if (ref[0] === '#') {
+      const codePoint = ref[1] === 'x' || ref[1] === 'X' ? parseInt(ref.slice(2), 16) : parseInt(ref.slice(1), 10);
+      if (!Number.isFinite(codePoint) || codePoint <= 0 || codePoint > 0x10ffff) {
+        return match;
+      }
+      return codePoint === 0xa0 ? ' ' : String.fromCodePoint(codePoint);
+    }
+    const named = NAMED_ENTITIES[ref.toLowerCase()];
+    return named !== undefined ? named : match;
+  });
+}
+
+function parseAttributes(raw: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  const attrRe = /([^\s"'>\/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+)))?/g;
+  let match: RegExpExecArray | null;
+  while ((match = attrRe.exec(raw)) !== null) {
+    const [, name, dq, sq, bare] = match;
+    attrs[name.toLowerCase()] = decodeEntities(dq ?? sq ?? bare ?? '');
+  }
+  return attrs;
+}
+
+/**
+ * Parse HTML into a lenient element tree
+ */
+function parseHtml(html: string): HtmlNode {
+  const root: HtmlNode = { tag: '#root', attrs: {}, children: [] };
+  const stack: HtmlNode[] = [root];
+  const tokenRe = /<!--[\s\S]*?(?:-->|$)|<!\[CDATA\[[\s\S]*?\]\]>|<![^>]*>|<\/?([a-zA-Z][a-zA-Z0-9-]*)([^>]*)>|[^<]+|</g;
+
+  let match: RegExpExecArray | null;
+  while ((match = tokenRe.exec(html)) !== null) {
+    const token = match[0];
+    const current = stack[stack.length - 1];
+
+    if (token.startsWith('<!')) {
+      continue; // comments, doctype, CDATA
+    }
+
+    const tagName = match[1]?.toLowerCase();
+    if (!tagName) {
+      current.children.push(decodeEntities(token));
+      continue;
+    }
+
+    if (token[1] === '/') {
+      // Closing tag: pop to the matching open element, ignore if none is open
+      for (let i = stack.length - 1; i > 0; i--) {
+        if (stack[i].tag === tagName) {
+          stack.length = i;
+          break;
+        }
+      }
+      continue;
+    }
+
+    if (RAW_TEXT_TAGS.has(tagName)) {
+      // Skip everything up to the matching closing tag
+      const closeIdx = html.toLowerCase().indexOf(`</${tagName}`, tokenRe.lastIndex);
+      if (closeIdx === -1) {
+        break;
+      }
+      const closeEnd = html.indexOf('>', closeIdx);
+      tokenRe.lastIndex = closeEnd === -1 ? html.length : closeEnd + 1;
+      continue;
+    }
+
+    const implicit = IMPLICIT_CLOSE[tagName];
+    if (implicit && implicit.includes(stack[stack.length - 1].tag)) {
+      stack.pop();
+    }
+
+    const node: HtmlNode = { tag: tagName, attrs: parseAttributes(match[2] || ''), children: [] };
+    stack[stack.length - 1].children.push(node);
+
+    const selfClosing = /\/\s*$/.test(match[2] || '');
+    if (!VOID_TAGS.has(tagName) && !selfClosing) {
+      stack.push(node);
+    }
+  }
+
+  return root;
+}
+
+function resolveUrl(href: string | undefined, ctx: RenderContext): string | null {
+  if (!href) return null;
+  const trimmed = href.trim();
+  if (!trimmed || /^(javascript|data):/i.test(trimmed) || trimmed.startsWith('#')) {
+    return null;
+  }
+  if (ctx.baseUrl && trimmed.startsWith('/') && !trimmed.startsWith('//')) {
+    return `${ctx.baseUrl.replace(/\/$/, '')}${trimmed}`;
+  }
+  return trimmed;
+}
+
+function block(content: string): string {
+  const trimmed = content.trim();
+  return trimmed ? `\n\n${trimmed}\n\n` : '';
+}
+
+function wrapInline(content: string, marker: string): string {
+  const trimmed = content.trim();
+  if (!trimmed) return content;
+  const lead = content.startsWith(' ') ? ' ' : '';
+  const trail = content.endsWith(' ') ? ' ' : '';
+  return `${lead}${marker}${trimmed}${marker}${trail}`;
+}
+
+function renderChildren(node: HtmlNode, ctx: RenderContext): string {
+  let out = '';
+  for (const child of node.children) {
+    let piece = renderNode(child, ctx);
+    // Collapsed whitespace right after a line break would otherwise indent the next line
+    if (typeof child === 'string' && !ctx.pre && (out === '' || out.endsWith('\n'))) {
+      piece = piece.trimStart();
+    }
+    out += piece;
+  }
+  return out;
+}
+
+function renderInline(node: HtmlNode, ctx: RenderContext): string {
+  return renderChildren(node, ctx).replace(/\s*\n+\s*/g, ' ').trim();
+}
+
+function renderList(node: HtmlNode, ctx: RenderContext): string {
+  const ordered = node.tag === 'ol';
+  const start = ordered && node.attrs.start ? parseInt(node.attrs.start, 10) || 1 : 1;
+  const lines: string[] = [];
+  let index = 0;
+
+  for (const child of node.children) {
+    if (typeof child === 'string' || child.tag !== 'li') {
+      // Stray content inside a list (e.g. nested <ul> without <li>): render as-is
+      const stray = renderNode(child, ctx).trim();
+      if (stray) lines.push(stray.replace(/\n+/g, '\n'));
+      continue;
+    }
+    const marker = ordered ? `${start + index}. ` : '- ';
+    index++;
+    const body = renderChildren(child, ctx).trim().replace(/\n{2,}/g, '\n');
+    const indent = ' '.repeat(marker.length);
+    lines.push(marker + body.split('\n').join(`\n${indent}`));
+  }
+
+  return lines.length > 0 ? `\n\n${lines.join('\n')}\n\n` : '';
+}
+
+function collectRows(node: HtmlNode, rows: HtmlNode[]): void {
+  for (const child of node.children) {
+    if (typeof child === 'string') continue;
+    if (child.tag === 'tr') {
+      rows.push(child);
+    } else if (child.tag === 'thead' || child.tag === 'tbody' || child.tag === 'tfoot') {
+      collectRows(child, rows);
+    }
+  }
+}
+
+function renderTable(node: HtmlNode, ctx: RenderContext): string {
+  const rows: HtmlNode[] = [];
+  collectRows(node, rows);
+
+  const cells = rows
+    .map(row => row.children
+      .filter((c): c is HtmlNode => typeof c !== 'string' && (c.tag === 'td' || c.tag === 'th'))
+      .map(c => renderInline(c, ctx)))
+    .filter(row => row.length > 0);
+
+  if (cells.length === 0) {
+    return '';
+  }
+
+  const caption = node.children.find((c): c is HtmlNode => typeof c !== 'string' && c.tag === 'caption');
+  const captionText = caption ? renderInline(caption, ctx) : '';
+
+  if (ctx.format === 'text') {
+    const lines = cells.map(row => row.join(' | '));
+    return block([captionText, ...lines].filter(Boolean).join('\n'));
+  }
+
+  const width = Math.max(...cells.map(row => row.length));
+  const pad = (row: string[]) => [...row, ...Array(width - row.length).fill('')].map(cell => cell.replace(/\|/g, '\\|'));
+  const lines = [
+    `| ${pad(cells[0]).join(' | ')} |`,
+    `|${' --- |'.repeat(width)}`,
+    ...cells.slice(1).map(row => `| ${pad(row).join(' | ')} |`),
+  ];
+  return block([captionText ? `**${captionText}**` : '', ...lines].filter(Boolean).join('\n'));
+}
+
+function renderNode(node: HtmlNode | string, ctx: RenderContext): string {
+  if (typeof node === 'string') {
+    return ctx.pre ? node : node.replace(/\s+/g, ' ');
+  }
+
+  const { tag } = node;
+  const md = ctx.format === 'markdown';
+
+  if (DROP_TAGS.has(tag)) {
+    return '';
+  }
+
+  switch (tag) {
+    case 'br':
+      return '\n';
+
+    case 'hr':
+      return md ? '\n\n---\n\n' : '\n\n';
+
+    case 'h1': case 'h2': case 'h3': case 'h4': case 'h5': case 'h6': {
+      const text = renderInline(node, ctx);
+      if (!text) return '';
+      return md ? block(`${'#'.repeat(Number(tag[1]))} ${text}`) : block(text);
+    }
+
+    case 'ul':
+    case 'ol':
+      return renderList(node, ctx);
+
+    case 'li':
+      // <li> outside a list
+      return block(`- ${renderChildren(node, ctx).trim()}`);
+
+    case 'table':
+      return renderTable(node, ctx);
+
+    case 'pre': {
+      const text = renderChildren(node, { ...ctx, pre: true }).replace(/^\n+|\s+$/g, '');
+      if (!text) return '';
+      return md ? `\n\n\`\`\`\n${text}\n\`\`\`\n\n` : `\n\n${text}\n\n`;
+    }
+
+    case 'blockquote': {
+      const body = renderChildren(node, ctx).trim().replace(/\n{3,}/g, '\n\n');
+      if (!body) return '';
+      const prefix = md ? '> ' : '  ';
+      return block(body.split('\n').map(line => (prefix + line).trimEnd()).join('\n'));
+    }
+
+    case 'a': {
+      const text = renderInline(node, ctx);
+      const href = resolveUrl(node.attrs.href, ctx);
+      if (!href) return text;
+      if (!text || text === href) return href;
+      return md ? `[${text}](${href})` : `${text} (${href})`;
+    }
+
+    case 'img': {
+      const alt = (node.attrs.alt || '').trim();
+      const src = resolveUrl(node.attrs.src, ctx);
+      if (md && src) return `![${alt}](${src})`;
+      return alt ? `[image: ${alt}]` : '';
+    }
+
+    case 'iframe': {
+      const src = resolveUrl(node.attrs.src, ctx);
+      if (!src) return '';
+      const title = (node.attrs.title || 'Embedded content').trim();
+      return md ? block(`[${title}](${src})`) : block(`${title} (${src})`);
+    }
+
+    case 'strong':
+    case 'b': {
+      const text = renderChildren(node, ctx);
+      return md ? wrapInline(text, '**') : text;
+    }
+
+    case 'em':
+    case 'i': {
+      const text = renderChildren(node, ctx);
+      return md ? wrapInline(text, '_') : text;
+    }
+
+    case 'code': {
+      if (ctx.pre) return renderChildren(node, ctx);
+      const text = renderChildren(node, ctx);
+      return md ? wrapInline(text, '`') : text;
+    }
+
+    case 'td':
+    case 'th':
+      return ` ${renderChildren(node, ctx)} `;
+
+    default:
+      if (BLOCK_TAGS.has(tag) || tag === 'tr') {
+        return block(renderChildren(node, ctx));
+      }
+      return renderChildren(node, ctx);
+  }
+}
+
+/**
+ * Convert Canvas HTML to compact markdown (format "markdown") or plain text (format "text")
+ */
+export function convertHtml(html: string | null | undefined, format: TextFormat = 'markdown', options: HtmlConvertOptions = {}): string {
+  if (!html) {
+    return '';
+  }
+
+  const root = parseHtml(html);
+  const rendered = renderNode(root, { format, baseUrl: options.baseUrl, pre: false });
+
+  // Normalize whitespace: trim line ends, collapse blank runs
+  return rendered
+    .split('\n')
+    .map(line => line.replace(/[ \t]+$/, ''))
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+export interface ContentSlice {
+  content: string;
+  content_length: number;
+  truncated: boolean;
+  next_cursor: string | null;
+}
+
+/**
+ * Return one window of converted content starting at cursor
+ *
+ * The cursor is the character offset of the window start, returned as next_cursor by the
+ * previous call. Windows end on a paragraph or line boundary when one falls in the last
+ * quarter of the window, so continuation never splits a table row or list item mid-line.
+ */
+export function sliceContent(text: string, cursor?: string, maxChars: number = 12000): ContentSlice {
+  // Digits only: parseInt would read "12abc" as 12 and "1e3" as 1
+  const start = cursor ? (/^\d+$/.test(cursor) ? Number(cursor) : NaN) : 0;
+  if (!Number.isInteger(start) || start < 0 || start > text.length) {
+    const err = new Error('Invalid cursor');
+    (err as any).code = 'invalid_arguments';
+    throw err;
+  }
+
+  let end = Math.min(text.length, start + maxChars);
+  if (end < text.length) {
+    const minEnd = start + Math.floor(maxChars * 0.75);
+    const paragraph = text.lastIndexOf('\n\n', end);
+    const line = text.lastIndexOf('\n', end);
+    if (paragraph >= minEnd) {
+      end = paragraph;
+    } else if (line >= minEnd) {
+      end = line;
+    }
+  }
+
+  return {
+    content: text.slice(start, end).trim(),
+    content_length: text.length,
+    truncated: end < text.length,
+    next_cursor: end < text.length ? String(end) : null,
+  };
+}
@@ -0,0 +1,151 @@
+/**
+ * iCalendar (RFC 5545) rendering for upcoming Canvas deadlines
+ */
+
+export interface IcsAssignment {
+  course_id: number;
+  course_name: string;
+  assignment_id: number;
+  name: string;
+  due_at: string | null;
+  status: 'submitted' | 'unsubmitted' | 'missing';
+  points_possible: number;
+  /** Set for observer accounts, where the feed covers several students */
+  student_id?: number;
+  student_name?: string;
+  /** Canvas base URL for this assignment when the feed spans several instances (default: options.baseUrl) */
+  base_url?: string;
+}
+
+export interface IcsOptions {
+  /** Canvas base URL, used for event links and the UID domain */
+  baseUrl: string;
+  /** Minutes before the due time for each VALARM reminder */
+  reminderMinutes?: number[];
+  calendarName?: string;
+}
+
+/**
+ * Escape a TEXT value (RFC 5545 §3.3.11)
+ */
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Fold content lines longer than 75 octets (RFC 5545 §3.1)
+ */
+function foldLine(line: string): string {
+  const bytes = Buffer.from(line, 'utf8');
+  if (bytes.length <= 75) {
+    return line;
+  }
+
+  const parts: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+  let limit = 75;
+  for (const char of line) {
+    const charBytes = Buffer.byteLength(char, 'utf8');
+    if (currentBytes + charBytes > limit) {
+      parts.push(current);
+      current = '';
+      currentBytes = 0;
+      limit = 74; // continuation lines start with a space
+    }
+    current += char;
+    currentBytes += charBytes;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+/**
+ * Format a date as UTC DATE-TIME (e.g. 20250112T235900Z)
+ */
+function formatDateTime(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/**
+ * Render upcoming assignments as a VCALENDAR document
+ *
+ * UIDs are derived from course and assignment IDs only (plus the student for observer feeds),
+ * so subscribed calendar clients update existing events (new due date, status change)
+ * instead of adding duplicates.
+ */
+export function renderIcs(assignments: IcsAssignment[], options: IcsOptions): string {
+  const stamp = formatDateTime(new Date());
+  const reminders = options.reminderMinutes || [];
+
+  const lines: string[] = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//canvas-mcp//Canvas Deadlines//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(options.calendarName || 'Canvas Deadlines')}`,
+  ];
+
+  for (const assignment of assignments) {
+    if (!assignment.due_at) {
+      continue;
+    }
+
+    const due = new Date(assignment.due_at);
+    if (isNaN(due.getTime())) {
+      continue;
+    }
+
+    const baseUrl = (assignment.base_url || options.baseUrl).replace(/\/$/, '');
+    const uidDomain = new URL(baseUrl).hostname;
+    const url = `${baseUrl}/courses/${assignment.course_id}/assignments/${assignment.assignment_id}`;
+    const statusLabel = assignment.status === 'submitted' ? ' [submitted]'
+      : assignment.status === 'missing' ? ' [missing]'
+      : '';
+    const studentLabel = assignment.student_name ? ` (${assignment.student_name})` : '';
+    const uidSuffix = assignment.student_id !== undefined ? `-${assignment.student_id}` : '';
+    const description = [
+      ...(assignment.student_name ? [`Student: ${assignment.student_name}`] : []),
+      `Course: ${assignment.course_name}`,
+      `Points: ${assignment.points_possible}`,
+      `Status: ${assignment.status}`,
+      url,
+    ].join('\n');
+
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:canvas-assignment-${assignment.course_id}-${assignment.assignment_id}${uidSuffix}@${uidDomain}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART:${formatDateTime(due)}`,
+      `DTEND:${formatDateTime(due)}`,
+      `SUMMARY:${escapeText(`${assignment.course_name}: ${assignment.name}${studentLabel}${statusLabel}`)}`,
+      `DESCRIPTION:${escapeText(description)}`,
+      `URL:${url}`,
+      'TRANSP:TRANSPARENT',
+    );
+
+    // No reminders for work that is already turned in
+    if (assignment.status !== 'submitted') {
+      for (const minutes of reminders) {
+        lines.push(
+          'BEGIN:VALARM',
+          'ACTION:DISPLAY',
+          `DESCRIPTION:${escapeText(`${assignment.name} is due`)}`,
+          `TRIGGER:-PT${minutes}M`,
+          'END:VALARM',
+        );
+      }
+    }
+
+    lines.push('END:VEVENT');
+  }
+
+  lines.push('END:VCALENDAR');
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
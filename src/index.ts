@@ -2,27 +2,65 @@
 
 /**
  * Canvas MCP Server - Read-only access to Canvas LMS
- * Streamable HTTP Transport (Server-Sent Events)
+ * Streamable HTTP transport, plus the legacy HTTP+SSE transport for older clients
+ * With --stdio (or MCP_TRANSPORT=stdio) it serves a single client over stdin/stdout instead
  */
 
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import {
   CallToolRequestSchema,
+  ErrorCode,
+  GetPromptRequestSchema,
+  isInitializeRequest,
+  isJSONRPCErrorResponse,
+  isJSONRPCRequest,
+  isJSONRPCResultResponse,
+  JSONRPCMessage,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
+  McpError,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js';
 import * as dotenv from 'dotenv';
 import express from 'express';
-import { timingSafeEqual } from 'crypto';
-import { CanvasClient } from './canvas-client.js';
+import { randomBytes, randomUUID, timingSafeEqual } from 'crypto';
+import os from 'os';
+import path from 'path';
+import { CanvasClient, PartialFailure } from './canvas-client.js';
 import { TOOLS, handleToolCall } from './tools.js';
+import { IcsAssignment, renderIcs } from './ics.js';
+import { SnapshotStore } from './snapshot-store.js';
+import { CanvasProfile, CanvasProfiles, loadProfiles, ProfileClient } from './profiles.js';
+import { OAuthManager, OAuthTokenStore } from './oauth.js';
+import { handleResourceRequest, ResourceSubscriptions } from './resources.js';
+import { getPrompt, PROMPTS } from './prompts.js';
 
 // Load environment variables
 dotenv.config();
 
+// Transport: "http" (default) or "stdio" for desktop clients that launch the server themselves
+const MCP_TRANSPORT = process.argv.includes('--stdio') ? 'stdio' : (process.env.MCP_TRANSPORT || 'http');
+if (MCP_TRANSPORT !== 'http' && MCP_TRANSPORT !== 'stdio') {
+  console.error(`Error: MCP_TRANSPORT must be "http" or "stdio" (got "${MCP_TRANSPORT}")`);
+  process.exit(1);
+}
+const STDIO_MODE = MCP_TRANSPORT === 'stdio';
+
+if (STDIO_MODE) {
+  // stdout carries the protocol; every log line (including other modules' console.log) goes to stderr
+  console.log = console.error;
+  console.info = console.error;
+  console.debug = console.error;
+}
+
 // Validate required environment variables
-const CANVAS_BASE_URL = process.env.CANVAS_BASE_URL;
-const CANVAS_API_TOKEN = process.env.CANVAS_API_TOKEN;
 const PORT = parseInt(process.env.PORT || '8080', 10);
 const BASE_PATH = process.env.BASE_PATH || '/mcp';
 const ALLOWED_ORIGINS = process.env.ALLOWED_ORIGINS
@@ -32,20 +70,119 @@ const CANVAS_TIMEOUT_MS = Number.isFinite(Number(process.env.CANVAS_TIMEOUT_MS))
   ? Math.max(1, Math.floor(Number(process.env.CANVAS_TIMEOUT_MS)))
   : 15000;
 const MCP_AUTH_TOKEN = process.env.MCP_AUTH_TOKEN || '';
+// Desktop clients start stdio servers from an arbitrary working directory, so default to the home directory there
+const DATA_DIR = process.env.DATA_DIR || (STDIO_MODE ? path.join(os.homedir(), '.canvas-mcp') : './data');
+const CANVAS_CACHE_ENABLED = process.env.CANVAS_CACHE_ENABLED !== 'false';
+const CANVAS_CACHE_MAX_ENTRIES = Number.isFinite(Number(process.env.CANVAS_CACHE_MAX_ENTRIES)) && Number(process.env.CANVAS_CACHE_MAX_ENTRIES) > 0
+  ? Math.floor(Number(process.env.CANVAS_CACHE_MAX_ENTRIES))
+  : 500;
+const CANVAS_MAX_RETRIES = Number.isFinite(Number(process.env.CANVAS_MAX_RETRIES)) && Number(process.env.CANVAS_MAX_RETRIES) >= 0
+  ? Math.floor(Number(process.env.CANVAS_MAX_RETRIES))
+  : 3;
+const CANVAS_RETRY_DEADLINE_MS = Number.isFinite(Number(process.env.CANVAS_RETRY_DEADLINE_MS)) && Number(process.env.CANVAS_RETRY_DEADLINE_MS) > 0
+  ? Math.floor(Number(process.env.CANVAS_RETRY_DEADLINE_MS))
+  : 30000;
+const CANVAS_CONCURRENCY = Number.isFinite(Number(process.env.CANVAS_CONCURRENCY)) && Number(process.env.CANVAS_CONCURRENCY) >= 1
+  ? Math.floor(Number(process.env.CANVAS_CONCURRENCY))
+  : 4;
+const CANVAS_GRAPHQL_ENABLED = process.env.CANVAS_GRAPHQL_ENABLED !== 'false';
+const ICS_AUTH_TOKEN = process.env.ICS_AUTH_TOKEN || MCP_AUTH_TOKEN;
+const ICS_REMINDER_MINUTES = parseReminderMinutes(process.env.ICS_REMINDER_MINUTES ?? '60,1440') ?? [60, 1440];
+const ICS_DEFAULT_DAYS = Number.isFinite(Number(process.env.ICS_DEFAULT_DAYS)) && Number(process.env.ICS_DEFAULT_DAYS) > 0
+  ? Math.floor(Number(process.env.ICS_DEFAULT_DAYS))
+  : 30;
+const MCP_SESSION_TTL_MS = Number.isFinite(Number(process.env.MCP_SESSION_TTL_MS)) && Number(process.env.MCP_SESSION_TTL_MS) >= 60000
+  ? Math.floor(Number(process.env.MCP_SESSION_TTL_MS))
+  : 30 * 60 * 1000;
+const RESOURCE_POLL_INTERVAL_MS = Number.isFinite(Number(process.env.RESOURCE_POLL_INTERVAL_MS)) && Number(process.env.RESOURCE_POLL_INTERVAL_MS) >= 10000
+  ? Math.floor(Number(process.env.RESOURCE_POLL_INTERVAL_MS))
+  : 300000;
+const OAUTH_ENCRYPTION_KEY = process.env.OAUTH_ENCRYPTION_KEY || '';
+const CANVAS_OAUTH_REDIRECT_URI = process.env.CANVAS_OAUTH_REDIRECT_URI || `http://localhost:${PORT}/oauth/callback`;
+const CANVAS_OAUTH_SCOPES = process.env.CANVAS_OAUTH_SCOPES || undefined;
+
+// Canvas profiles: CANVAS_BASE_URL/CANVAS_API_TOKEN ("default") plus any named in CANVAS_PROFILES
+let CANVAS_PROFILES: CanvasProfile[];
+try {
+  CANVAS_PROFILES = loadProfiles(process.env, CANVAS_TIMEOUT_MS);
+} catch (err: any) {
+  console.error(`Error: ${err.message}`);
+  console.error('See .env.example for template');
+  process.exit(1);
+}
 
-if (!CANVAS_BASE_URL || !CANVAS_API_TOKEN) {
+if (CANVAS_PROFILES.length === 0) {
   console.error('Error: Missing required environment variables');
-  console.error('Please set CANVAS_BASE_URL and CANVAS_API_TOKEN in your .env file');
+  console.error('Please set CANVAS_BASE_URL and CANVAS_API_TOKEN (or CANVAS_PROFILES) in your .env file');
   console.error('See .env.example for template');
   process.exit(1);
 }
 
-// Initialize Canvas client
-const canvasClient = new CanvasClient({
-  baseUrl: CANVAS_BASE_URL,
-  apiToken: CANVAS_API_TOKEN,
-  timeoutMs: CANVAS_TIMEOUT_MS,
-});
+if (CANVAS_PROFILES.some(p => p.oauth) && OAUTH_ENCRYPTION_KEY.length < 16) {
+  console.error('Error: OAUTH_ENCRYPTION_KEY (at least 16 characters) is required when OAuth is configured');
+  console.error('See .env.example for template');
+  process.exit(1);
+}
+
+/**
+ * Parse a comma-separated list of reminder offsets in minutes (e.g. "60,1440")
+ * Returns null if any entry is not a non-negative integer
+ */
+function parseReminderMinutes(raw: string): number[] | null {
+  const trimmed = raw.trim();
+  if (!trimmed) {
+    return [];
+  }
+  const values = trimmed.split(',').map(v => Number(v.trim()));
+  if (values.some(v => !Number.isInteger(v) || v < 0)) {
+    return null;
+  }
+  return values;
+}
+
+// OAuth tokens for every profile, encrypted at rest under DATA_DIR
+const oauthStore = CANVAS_PROFILES.some(p => p.oauth) ? new OAuthTokenStore(DATA_DIR, OAUTH_ENCRYPTION_KEY) : null;
+
+// Initialize one Canvas client per profile; each has its own cache, rate-limit state and
+// snapshot file (course IDs from different instances can collide)
+const canvasProfiles = new CanvasProfiles(CANVAS_PROFILES.map(profile => {
+  const oauth = profile.oauth && oauthStore
+    ? new OAuthManager({
+        profile: profile.name,
+        baseUrl: profile.baseUrl,
+        clientId: profile.oauth.clientId,
+        clientSecret: profile.oauth.clientSecret,
+        redirectUri: CANVAS_OAUTH_REDIRECT_URI,
+        scopes: CANVAS_OAUTH_SCOPES,
+        store: oauthStore,
+        fallbackToken: profile.apiToken ?? undefined,
+      })
+    : undefined;
+
+  return {
+    name: profile.name,
+    baseUrl: profile.baseUrl,
+    oauth,
+    client: new CanvasClient({
+      baseUrl: profile.baseUrl,
+      apiToken: profile.apiToken ?? undefined,
+      tokenProvider: oauth,
+      timeoutMs: profile.timeoutMs,
+      // Snapshot store for what_changed (file-backed JSON under DATA_DIR)
+      snapshots: new SnapshotStore(DATA_DIR, profile.name === 'default' ? undefined : `canvas-snapshots-${profile.name}.json`),
+      cacheEnabled: CANVAS_CACHE_ENABLED,
+      cacheMaxEntries: CANVAS_CACHE_MAX_ENTRIES,
+      maxRetries: CANVAS_MAX_RETRIES,
+      retryDeadlineMs: CANVAS_RETRY_DEADLINE_MS,
+      concurrency: CANVAS_CONCURRENCY,
+      graphqlEnabled: CANVAS_GRAPHQL_ENABLED,
+    }),
+  };
+}));
+
+// Pending OAuth sign-ins: state parameter → profile (CSRF protection for the callback)
+const OAUTH_STATE_TTL_MS = 10 * 60 * 1000;
+const oauthStates = new Map<string, { profile: string; expiresAt: number }>();
 
 // Create Express app
 const app = express();
@@ -139,6 +276,33 @@ function securityMiddleware(req: express.Request, res: express.Response, next: e
   next();
 }
 
+/**
+ * Constant-time token comparison
+ */
+function tokenMatches(providedToken: string, expectedToken: string): boolean {
+  const provided = Buffer.from(providedToken, 'utf8');
+  const expected = Buffer.from(expectedToken, 'utf8');
+
+  if (provided.length !== expected.length) {
+    return false;
+  }
+
+  return timingSafeEqual(provided, expected);
+}
+
+/**
+ * Extract the token from an "Authorization: Bearer <token>" header
+ */
+function bearerToken(req: express.Request): string | null {
+  const raw = req.headers['authorization'];
+  if (!raw || typeof raw !== 'string') {
+    return null;
+  }
+
+  const match = /^Bearer\s+(.+)$/i.exec(raw.trim());
+  return match ? match[1].trim() : null;
+}
+
 /**
  * Optional Bearer auth for MCP endpoint (applied after security checks)
  */
@@ -147,26 +311,42 @@ function mcpAuthMiddleware(req: express.Request, res: express.Response, next: ex
     return next(); // no-auth mode
   }
 
-  const raw = req.headers['authorization'];
-  if (!raw || typeof raw !== 'string') {
+  const providedToken = bearerToken(req);
+  if (!providedToken || !tokenMatches(providedToken, MCP_AUTH_TOKEN)) {
     return res.status(401).json({ error: 'unauthorized' });
   }
 
-  const auth = raw.trim();
-  const match = /^Bearer\s+(.+)$/i.exec(auth);
-  if (!match) {
+  return next();
+}
+
+/**
+ * Optional auth for the calendar feed
+ * Calendar clients usually cannot send headers, so ?token= is accepted as well as Bearer auth
+ */
+function icsAuthMiddleware(req: express.Request, res: express.Response, next: express.NextFunction) {
+  if (!ICS_AUTH_TOKEN) {
+    return next(); // no-auth mode
+  }
+
+  const providedToken = bearerToken(req) ?? (typeof req.query.token === 'string' ? req.query.token : null);
+  if (!providedToken || !tokenMatches(providedToken, ICS_AUTH_TOKEN)) {
     return res.status(401).json({ error: 'unauthorized' });
   }
 
-  const providedToken = match[1].trim();
-  const provided = Buffer.from(providedToken, 'utf8');
-  const expected = Buffer.from(MCP_AUTH_TOKEN, 'utf8');
+  return next();
+}
 
-  if (provided.length !== expected.length) {
-    return res.status(401).json({ error: 'unauthorized' });
+/**
+ * Optional auth for the OAuth start/status pages (MCP_AUTH_TOKEN)
+ * They are opened in a browser, so ?token= is accepted as well as Bearer auth
+ */
+function oauthAuthMiddleware(req: express.Request, res: express.Response, next: express.NextFunction) {
+  if (!MCP_AUTH_TOKEN) {
+    return next(); // no-auth mode
   }
 
-  if (!timingSafeEqual(provided, expected)) {
+  const providedToken = bearerToken(req) ?? (typeof req.query.token === 'string' ? req.query.token : null);
+  if (!providedToken || !tokenMatches(providedToken, MCP_AUTH_TOKEN)) {
     return res.status(401).json({ error: 'unauthorized' });
   }
 
@@ -178,9 +358,201 @@ app.get('/healthz', (_req, res) => {
   res.status(200).send('OK');
 });
 
+// iCalendar feed of upcoming deadlines (same data as list_upcoming)
+// Query: course_ids=1,2  days=30  include_overdue=true|false  reminders=60,1440 (minutes; empty for none)
+//        profile=name (default: every profile merged)
+app.get('/calendar.ics', securityMiddleware, icsAuthMiddleware, async (req, res) => {
+  const started = Date.now();
+
+  const days = req.query.days !== undefined ? Number(req.query.days) : ICS_DEFAULT_DAYS;
+  if (!Number.isFinite(days) || days <= 0) {
+    return res.status(400).json({ error: 'invalid days' });
+  }
+
+  const includeOverdue = req.query.include_overdue !== 'false';
+
+  const courseIds = typeof req.query.course_ids === 'string' && req.query.course_ids.trim()
+    ? req.query.course_ids.split(',').map(id => id.trim()).filter(Boolean)
+    : undefined;
+
+  const reminders = typeof req.query.reminders === 'string'
+    ? parseReminderMinutes(req.query.reminders)
+    : ICS_REMINDER_MINUTES;
+  if (!reminders) {
+    return res.status(400).json({ error: 'invalid reminders' });
+  }
+
+  let profile: ProfileClient | undefined;
+  if (typeof req.query.profile === 'string') {
+    try {
+      profile = canvasProfiles.get(req.query.profile);
+    } catch {
+      return res.status(400).json({ error: 'invalid profile' });
+    }
+  }
+
+  try {
+    const single = profile ?? (canvasProfiles.multiple ? undefined : canvasProfiles.get());
+    let upcoming: { assignments: IcsAssignment[]; partial_failures: PartialFailure[] };
+    if (single) {
+      upcoming = await single.client.listUpcoming(days, includeOverdue, courseIds);
+    } else {
+      // Each event links to (and takes its UID domain from) the instance it came from
+      const merged = await canvasProfiles.listUpcoming(days, includeOverdue, courseIds);
+      upcoming = {
+        assignments: merged.assignments.map(a => ({ ...a, base_url: canvasProfiles.get(a.profile).baseUrl })),
+        partial_failures: merged.partial_failures,
+      };
+    }
+    const body = renderIcs(upcoming.assignments, { baseUrl: (single ?? canvasProfiles.get()).baseUrl, reminderMinutes: reminders });
+    const duration = Date.now() - started;
+    // A null course_id means a student's (observer feeds) or profile's whole course list failed
+    const failedCourses = upcoming.partial_failures.map(f =>
+      f.course_id ?? (f.student_id !== undefined ? `student:${f.student_id}` : `profile:${f.profile}`));
+    console.log(JSON.stringify({ level: 'info', event: 'calendar_ics', events: upcoming.assignments.length, partial_failures: failedCourses.length, duration_ms: duration, success: true }));
+    if (failedCourses.length > 0) {
+      // Calendar clients can't show errors; surface courses that could not be checked in a header
+      res.setHeader('X-Canvas-Partial-Failures', failedCourses.join(','));
+    }
+    res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+    res.setHeader('Content-Disposition', 'inline; filename="canvas.ics"');
+    res.setHeader('Cache-Control', 'no-cache');
+    return res.status(200).send(body);
+  } catch (error: any) {
+    const duration = Date.now() - started;
+    const code = error?.code || 'internal_error';
+    console.log(JSON.stringify({ level: 'error', event: 'calendar_ics', duration_ms: duration, success: false, code, rate_limit_remaining: error?.rate_limit_remaining ?? null }));
+    return res.status(502).json({ error: code });
+  }
+});
+
+// OAuth sign-in: redirect to Canvas's consent page
+// Query: profile=name (default: first profile)
+app.get('/oauth/start', securityMiddleware, oauthAuthMiddleware, (req, res) => {
+  let profile: ProfileClient;
+  try {
+    profile = canvasProfiles.get(typeof req.query.profile === 'string' ? req.query.profile : undefined);
+  } catch {
+    return res.status(400).json({ error: 'invalid profile' });
+  }
+  if (!profile.oauth) {
+    return res.status(400).json({ error: 'oauth not configured for profile' });
+  }
+
+  const now = Date.now();
+  for (const [key, pending] of oauthStates) {
+    if (pending.expiresAt <= now) {
+      oauthStates.delete(key);
+    }
+  }
+  const state = randomBytes(24).toString('base64url');
+  oauthStates.set(state, { profile: profile.name, expiresAt: now + OAUTH_STATE_TTL_MS });
+
+  console.log(JSON.stringify({ level: 'info', event: 'oauth_start', profile: profile.name }));
+  return res.redirect(302, profile.oauth.authorizeUrl(state));
+});
+
+// OAuth redirect target: exchange the code and store the tokens
+app.get('/oauth/callback', securityMiddleware, async (req, res) => {
+  const state = typeof req.query.state === 'string' ? req.query.state : '';
+  const pending = oauthStates.get(state);
+  oauthStates.delete(state);
+  if (!pending || pending.expiresAt <= Date.now()) {
+    return res.status(400).json({ error: 'invalid or expired state' });
+  }
+
+  const profile = canvasProfiles.get(pending.profile);
+  if (typeof req.query.error === 'string') {
+    // e.g. access_denied when the user clicks Cancel
+    console.log(JSON.stringify({ level: 'warn', event: 'oauth_callback', profile: profile.name, success: false, code: req.query.error }));
+    return res.status(400).json({ error: req.query.error });
+  }
+  if (typeof req.query.code !== 'string' || !req.query.code) {
+    return res.status(400).json({ error: 'missing code' });
+  }
+
+  try {
+    const status = await profile.oauth!.exchangeCode(req.query.code);
+    // Cached responses may belong to a previously connected user
+    profile.client.clearCache();
+    console.log(JSON.stringify({ level: 'info', event: 'oauth_callback', profile: profile.name, success: true }));
+    return res.status(200).json({ profile: profile.name, ...status });
+  } catch (error: any) {
+    const code = error?.code || 'internal_error';
+    console.log(JSON.stringify({ level: 'error', event: 'oauth_callback', profile: profile.name, success: false, code }));
+    return res.status(502).json({ error: code });
+  }
+});
+
+// Which Canvas user each profile is connected as (personal token or OAuth)
+app.get('/oauth/status', securityMiddleware, oauthAuthMiddleware, async (_req, res) => {
+  const profiles = await Promise.all(canvasProfiles.all().map(async profile => {
+    const oauth = profile.oauth?.status() ?? null;
+    const usingOAuth = oauth?.connected === true;
+    let user = null;
+    let error = null;
+    try {
+      user = await profile.client.getSelf();
+    } catch (err: any) {
+      error = err?.code || 'internal_error';
+    }
+    return {
+      profile: profile.name,
+      base_url: profile.baseUrl,
+      auth: usingOAuth ? 'oauth' : profile.oauth && error === 'not_authenticated' ? 'none' : 'token',
+      connected: user !== null,
+      user,
+      error,
+      oauth: oauth ? { connected: oauth.connected, expires_at: oauth.expires_at, connected_at: oauth.connected_at } : null,
+    };
+  }));
+  return res.status(200).json({ profiles });
+});
+
 // Apply security + optional auth to all MCP requests (both GET/POST)
 app.use(BASE_PATH, securityMiddleware, mcpAuthMiddleware);
 
+// MCP spec error code for unknown resources (not in the SDK's ErrorCode enum)
+const RESOURCE_NOT_FOUND = -32002;
+
+/**
+ * JSON-RPC error for a failed resources/* or prompts/* request
+ */
+function rpcError(error: any): { code: number; message: string } {
+  const code = error?.code || (error?.name === 'AbortError' ? 'timeout' : 'internal_error');
+  const msg = error instanceof Error ? error.message : 'Unknown error';
+  const rpcCode = code === 'resource_not_found' ? RESOURCE_NOT_FOUND
+    : code === 'invalid_arguments' ? ErrorCode.InvalidParams
+    : code === 'invalid_tool' ? ErrorCode.MethodNotFound
+    : ErrorCode.InternalError;
+  return { code: rpcCode, message: `Error [${code}]: ${msg}` };
+}
+
+/**
+ * Run a resources/* or prompts/* request with logging; failures are thrown as JSON-RPC errors
+ * detail (resource URI, prompt name) is added to the log line
+ */
+async function runRpcRequest<T>(
+  event: string,
+  method: string,
+  detail: Record<string, unknown>,
+  requestId: unknown,
+  handle: () => Promise<T>
+): Promise<T> {
+  const started = Date.now();
+  try {
+    const result = await handle();
+    const duration = Date.now() - started;
+    console.log(JSON.stringify({ level: 'info', event, method, ...detail, requestId: requestId ?? null, duration_ms: duration, success: true }));
+    return result;
+  } catch (error: any) {
+    const duration = Date.now() - started;
+    console.log(JSON.stringify({ level: 'error', event, method, ...detail, requestId: requestId ?? null, duration_ms: duration, success: false, code: error?.code || 'internal_error', rate_limit_remaining: error?.rate_limit_remaining ?? null }));
+    const rpc = rpcError(error);
+    throw new McpError(rpc.code, rpc.message);
+  }
+}
+
 // Helper to create a new MCP server with handlers
 function createMcpServer() {
   const server = new Server(
@@ -191,10 +563,31 @@ function createMcpServer() {
     {
       capabilities: {
         tools: {},
+        resources: { subscribe: true },
+        prompts: {},
       },
     }
   );
 
+  const subscriptions = new ResourceSubscriptions(canvasProfiles, RESOURCE_POLL_INTERVAL_MS, uri => server.sendResourceUpdated({ uri }));
+
+  const resourceHandler = async (request: { method: string; params?: any }, extra: { requestId: unknown }) => {
+    const uri = typeof request.params?.uri === 'string' ? request.params.uri : null;
+    return runRpcRequest('resource_request', request.method, { uri }, extra.requestId,
+      () => handleResourceRequest(request.method, request.params, canvasProfiles, subscriptions)) as Promise<any>;
+  };
+  server.setRequestHandler(ListResourcesRequestSchema, resourceHandler);
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, resourceHandler);
+  server.setRequestHandler(ReadResourceRequestSchema, resourceHandler);
+  server.setRequestHandler(SubscribeRequestSchema, resourceHandler);
+  server.setRequestHandler(UnsubscribeRequestSchema, resourceHandler);
+
+  server.setRequestHandler(ListPromptsRequestSchema, async (request, extra) =>
+    runRpcRequest('prompt_request', request.method, { prompt: null }, extra.requestId, async () => ({ prompts: [...PROMPTS] }) as any));
+  server.setRequestHandler(GetPromptRequestSchema, async (request, extra) =>
+    runRpcRequest('prompt_request', request.method, { prompt: request.params.name }, extra.requestId,
+      () => getPrompt(request.params.name, request.params.arguments ?? {}, canvasProfiles)));
+
   server.setRequestHandler(ListToolsRequestSchema, async (request) => {
     const started = Date.now();
     try {
@@ -213,7 +606,7 @@ function createMcpServer() {
     const { name, arguments: args } = request.params;
     const started = Date.now();
     try {
-      const result = await handleToolCall(name, args || {}, canvasClient);
+      const result = await handleToolCall(name, args || {}, canvasProfiles);
       const duration = Date.now() - started;
       console.log(JSON.stringify({ level: 'info', event: 'tool_call', tool: name, requestId: (request as any)?.id ?? null, duration_ms: duration, success: true }));
       return result;
@@ -221,92 +614,305 @@ function createMcpServer() {
       const duration = Date.now() - started;
       const code = error?.code || (error?.name === 'AbortError' ? 'timeout' : 'internal_error');
       const msg = error instanceof Error ? error.message : 'Unknown error';
-      console.log(JSON.stringify({ level: 'error', event: 'tool_call', tool: name, requestId: (request as any)?.id ?? null, duration_ms: duration, success: false, code }));
+      console.log(JSON.stringify({ level: 'error', event: 'tool_call', tool: name, requestId: (request as any)?.id ?? null, duration_ms: duration, success: false, code, rate_limit_remaining: error?.rate_limit_remaining ?? null }));
       return { content: [{ type: 'text', text: `Error [${code}]: ${msg}` }], isError: true } as any;
     }
   });
 
-  return server;
+  return { server, subscriptions };
 }
 
-// MCP Streamable HTTP endpoint - POST negotiates session; POST with sessionId processes JSON-RPC; GET maintains SSE stream
-app.post(BASE_PATH, async (req, res) => {
-  const sessionId = typeof req.query.sessionId === 'string' ? req.query.sessionId : undefined;
+interface McpSession {
+  transport: StreamableHTTPServerTransport;
+  subscriptions: ResourceSubscriptions;
+  lastSeen: number;
+  /** Open GET event streams; a session with one open never expires */
+  openStreams: number;
+}
 
-  if (sessionId) {
-    // Direct JSON-RPC processing for existing session
-    const body = req.body;
-    const badRequest = (message: string) => res.status(400).json({ jsonrpc: '2.0', error: { code: -32600, message }, id: null });
+// Streamable HTTP sessions by Mcp-Session-Id
+const sessions = new Map<string, McpSession>();
+// Legacy HTTP+SSE sessions by sessionId query parameter; they end when the stream closes
+const legacySessions = new Map<string, SSEServerTransport>();
 
-    if (!body || typeof body !== 'object') {
-      return badRequest('Invalid request body');
+/**
+ * JSON-RPC error response for requests rejected before reaching the MCP server
+ */
+function rejectRpc(res: express.Response, status: number, code: number, message: string) {
+  return res.status(status).json({ jsonrpc: '2.0', error: { code, message }, id: null });
+}
+
+/**
+ * Whether a POST body (single message or batch) starts a session
+ */
+function startsSession(body: unknown): boolean {
+  return Array.isArray(body) ? body.some(m => isInitializeRequest(m)) : isInitializeRequest(body);
+}
+
+/**
+ * Whether a POST body holds JSON-RPC messages (the original SSE handshake POSTed none)
+ */
+function carriesRpcMessage(body: unknown): boolean {
+  if (Array.isArray(body)) {
+    return body.length > 0;
+  }
+  return typeof body === 'object' && body !== null && ('jsonrpc' in body || 'method' in body);
+}
+
+/**
+ * Close a Streamable HTTP session and stop its resource polling (idempotent)
+ */
+async function closeSession(sessionId: string, reason: 'deleted' | 'expired' | 'closed') {
+  const session = sessions.get(sessionId);
+  if (!session) {
+    return;
+  }
+  sessions.delete(sessionId);
+  session.subscriptions.close();
+  console.log(JSON.stringify({ level: 'info', event: 'session_closed', session_id: sessionId, reason, active_sessions: sessions.size }));
+  if (reason === 'expired') {
+    // DELETE and transport-initiated closes have already shut the transport down
+    await session.transport.close().catch(() => undefined);
+  }
+}
+
+// Close sessions idle for longer than MCP_SESSION_TTL_MS (no requests and no open event stream)
+const sessionSweep = setInterval(() => {
+  const cutoff = Date.now() - MCP_SESSION_TTL_MS;
+  for (const [sessionId, session] of sessions) {
+    if (session.openStreams === 0 && session.lastSeen < cutoff) {
+      void closeSession(sessionId, 'expired');
     }
+  }
+}, Math.min(60000, MCP_SESSION_TTL_MS));
+sessionSweep.unref();
+
+/**
+ * The Streamable HTTP session named by the Mcp-Session-Id header
+ * Responds 400 when the header is missing and 404 when the session is unknown or expired
+ */
+function findSession(req: express.Request, res: express.Response): McpSession | null {
+  const sessionId = req.headers['mcp-session-id'];
+  if (typeof sessionId !== 'string' || !sessionId) {
+    rejectRpc(res, 400, ErrorCode.InvalidRequest, 'Bad Request: Mcp-Session-Id header is required');
+    return null;
+  }
+  const session = sessions.get(sessionId);
+  if (!session) {
+    // Clients must start a new session with initialize
+    rejectRpc(res, 404, -32001, 'Session not found');
+    return null;
+  }
+  session.lastSeen = Date.now();
+  return session;
+}
+
+/**
+ * SSE transport for this server's original flow at BASE_PATH: a POST without a session opens the
+ * event stream, and requests POSTed to BASE_PATH?sessionId=... are answered in the POST response
+ * body rather than on the stream. Notifications still go to the stream.
+ */
+class InlineSSEServerTransport extends SSEServerTransport {
+  private waiting = new Map<string | number, express.Response>();
 
-    // Support only single request for minimal surface; batch can be added later
-    const { jsonrpc, method, id, params } = body as any;
-    if (jsonrpc !== '2.0' || typeof method !== 'string') {
-      return badRequest('Invalid JSON-RPC 2.0 request');
+  async handleInlinePost(req: express.Request, res: express.Response) {
+    const body = req.body;
+    if (!isJSONRPCRequest(body)) {
+      // Notifications and client responses get no reply
+      return this.handlePostMessage(req, res, body);
     }
+    this.waiting.set(body.id, res);
+    res.on('close', () => this.waiting.delete(body.id));
+    await this.handleMessage(body, { requestInfo: { headers: req.headers } });
+  }
 
-    if (method === 'tools/list') {
-      const started = Date.now();
-      try {
-        const result = { tools: TOOLS };
-        const duration = Date.now() - started;
-        console.log(JSON.stringify({ level: 'info', event: 'list_tools', requestId: id ?? null, duration_ms: duration, success: true }));
-        return res.json({ jsonrpc: '2.0', id, result });
-      } catch (e) {
-        const duration = Date.now() - started;
-        console.log(JSON.stringify({ level: 'error', event: 'list_tools', requestId: id ?? null, duration_ms: duration, success: false }));
-        return res.json({ jsonrpc: '2.0', id, error: { code: -32603, message: 'Internal error' } });
+  async send(message: JSONRPCMessage) {
+    if ((isJSONRPCResultResponse(message) || isJSONRPCErrorResponse(message)) && message.id !== undefined) {
+      const res = this.waiting.get(message.id);
+      if (res) {
+        this.waiting.delete(message.id);
+        res.json(message);
+        return;
       }
     }
+    return super.send(message);
+  }
+}
 
-    if (method === 'tools/call') {
-      const started = Date.now();
-      try {
-        const name = params?.name;
-        const args = params?.arguments || {};
-        const result = await handleToolCall(name, args, canvasClient);
-        const duration = Date.now() - started;
-        console.log(JSON.stringify({ level: 'info', event: 'tool_call', tool: name, requestId: id ?? null, duration_ms: duration, success: true }));
-        return res.json({ jsonrpc: '2.0', id, result });
-      } catch (error: any) {
-        const duration = Date.now() - started;
-        const code = error?.code || (error?.name === 'AbortError' ? 'timeout' : 'internal_error');
-        const msg = error instanceof Error ? error.message : 'Unknown error';
-        console.log(JSON.stringify({ level: 'error', event: 'tool_call', tool: params?.name, requestId: id ?? null, duration_ms: duration, success: false, code }));
-        // Return as a successful result with isError (mirrors transport behavior), not protocol error
-        return res.json({ jsonrpc: '2.0', id, result: { content: [{ type: 'text', text: `Error [${code}]: ${msg}` }], isError: true } });
-      }
+/**
+ * Serve a legacy HTTP+SSE session over an event stream that has just been opened
+ */
+async function openLegacySession(transport: SSEServerTransport) {
+  const { server, subscriptions } = createMcpServer();
+  legacySessions.set(transport.sessionId, transport);
+  server.onclose = () => {
+    subscriptions.close();
+    legacySessions.delete(transport.sessionId);
+  };
+  console.log(JSON.stringify({ level: 'info', event: 'session_created', transport: 'sse', session_id: transport.sessionId }));
+  await server.connect(transport);
+}
+
+// Legacy HTTP+SSE transport (protocol 2024-11-05): GET opens the event stream, which announces
+// the POST endpoint for messages
+app.get(`${BASE_PATH}/sse`, async (_req, res) => {
+  await openLegacySession(new SSEServerTransport(`${BASE_PATH}/messages`, res));
+});
+
+app.post(`${BASE_PATH}/messages`, async (req, res) => {
+  const sessionId = typeof req.query.sessionId === 'string' ? req.query.sessionId : '';
+  const transport = legacySessions.get(sessionId);
+  if (!transport) {
+    return rejectRpc(res, 404, -32001, 'Session not found');
+  }
+  await transport.handlePostMessage(req, res, req.body);
+});
+
+// Streamable HTTP transport: POST carries JSON-RPC messages (single or batch); initialize without a
+// session ID starts a session, whose ID comes back in the Mcp-Session-Id response header.
+// Without the header, POST is the original SSE flow: ?sessionId= posts a message to a legacy
+// session, and a POST with no JSON-RPC message opens a legacy event stream. Any other message
+// without a session gets 400.
+app.post(BASE_PATH, async (req, res) => {
+  if (req.headers['mcp-session-id'] !== undefined) {
+    const session = findSession(req, res);
+    if (session) {
+      await session.transport.handleRequest(req, res, req.body);
+    }
+    return;
+  }
+
+  if (typeof req.query.sessionId === 'string') {
+    const transport = legacySessions.get(req.query.sessionId);
+    if (!transport) {
+      return rejectRpc(res, 404, -32001, 'Session not found');
+    }
+    if (transport instanceof InlineSSEServerTransport) {
+      await transport.handleInlinePost(req, res);
+    } else {
+      await transport.handlePostMessage(req, res, req.body);
     }
+    return;
+  }
 
-    // Method not found
-    return res.json({ jsonrpc: '2.0', id, error: { code: -32601, message: 'Method not found' } });
+  if (!carriesRpcMessage(req.body)) {
+    return openLegacySession(new InlineSSEServerTransport(BASE_PATH, res));
+  }
+  if (!startsSession(req.body)) {
+    return rejectRpc(res, 400, ErrorCode.InvalidRequest, 'Bad Request: Mcp-Session-Id header is required');
   }
 
-  // No sessionId: negotiate a new session via SSE transport
-  console.log('New MCP connection from:', req.headers.host);
-  const server = createMcpServer();
-  const transport = new SSEServerTransport(BASE_PATH, res);
+  const { server, subscriptions } = createMcpServer();
+  const transport = new StreamableHTTPServerTransport({
+    sessionIdGenerator: () => randomUUID(),
+    onsessioninitialized: sessionId => {
+      sessions.set(sessionId, { transport, subscriptions, lastSeen: Date.now(), openStreams: 0 });
+      console.log(JSON.stringify({ level: 'info', event: 'session_created', transport: 'streamable_http', session_id: sessionId, active_sessions: sessions.size }));
+    },
+    onsessionclosed: sessionId => closeSession(sessionId, 'deleted'),
+  });
+  server.onclose = () => {
+    subscriptions.close();
+    if (transport.sessionId) {
+      void closeSession(transport.sessionId, 'closed');
+    }
+  };
   await server.connect(transport);
+  await transport.handleRequest(req, res, req.body);
+});
+
+// GET opens the session's stream for server-initiated messages (resource update notifications);
+// the session stays alive while it is open and its idle time starts when it closes
+app.get(BASE_PATH, async (req, res) => {
+  const session = findSession(req, res);
+  if (session) {
+    session.openStreams++;
+    res.on('close', () => {
+      session.openStreams--;
+      session.lastSeen = Date.now();
+    });
+    await session.transport.handleRequest(req, res);
+  }
+});
+
+// DELETE ends the session
+app.delete(BASE_PATH, async (req, res) => {
+  const session = findSession(req, res);
+  if (session) {
+    await session.transport.handleRequest(req, res);
+  }
+});
+
+// Malformed JSON bodies on MCP endpoints get a JSON-RPC parse error instead of Express's HTML page
+app.use(BASE_PATH, (err: any, _req: express.Request, res: express.Response, next: express.NextFunction) => {
+  if (err?.type === 'entity.parse.failed') {
+    return rejectRpc(res, 400, ErrorCode.ParseError, 'Parse error');
+  }
+  return next(err);
 });
 
+/**
+ * Serve one client over stdin/stdout (no HTTP server, calendar feed or OAuth routes)
+ */
+async function mainStdio() {
+  const { server, subscriptions } = createMcpServer();
+  server.onclose = () => subscriptions.close();
+  await server.connect(new StdioServerTransport());
+
+  console.log(JSON.stringify({
+    level: 'info',
+    event: 'stdio_started',
+    profiles: CANVAS_PROFILES.map(p => p.name),
+    data_dir: DATA_DIR,
+    response_cache: CANVAS_CACHE_ENABLED,
+  }));
+  for (const profile of canvasProfiles.all()) {
+    if (profile.oauth && !profile.oauth.status().connected) {
+      // Sign-in needs the HTTP routes; tokens stored by an HTTP run (same DATA_DIR and key) are reused
+      console.log(JSON.stringify({ level: 'warn', event: 'oauth_not_connected', profile: profile.name, message: 'Sign in once with the HTTP server (/oauth/start) using the same DATA_DIR and OAUTH_ENCRYPTION_KEY' }));
+    }
+  }
+}
+
 // Start HTTP server
 async function main() {
+  if (STDIO_MODE) {
+    return mainStdio();
+  }
+
   app.listen(PORT, '0.0.0.0', () => {
     console.log(`Canvas MCP server running on http://0.0.0.0:${PORT}`);
     console.log(`MCP endpoint: http://0.0.0.0:${PORT}${BASE_PATH}`);
     console.log(`Health check: http://0.0.0.0:${PORT}/healthz`);
-    console.log(`Transport: Streamable HTTP (Server-Sent Events)`);
+    console.log(`Calendar feed: http://0.0.0.0:${PORT}/calendar.ics`);
+    console.log(`Canvas sign-in status: http://0.0.0.0:${PORT}/oauth/status`);
+    console.log(`Transport: Streamable HTTP (sessions expire after ${MCP_SESSION_TTL_MS}ms idle)`);
+    console.log(`Legacy SSE endpoint: http://0.0.0.0:${PORT}${BASE_PATH}/sse`);
     console.log(`Allowed origins: ${ALLOWED_ORIGINS.join(', ')}`);
     console.log(`Security: Origin validation + DNS rebinding protection enabled`);
-    console.log(`Canvas timeout: ${CANVAS_TIMEOUT_MS}ms`);
+    for (const profile of CANVAS_PROFILES) {
+      const auth = profile.oauth ? (profile.apiToken ? 'OAuth, token until connected' : 'OAuth') : 'token';
+      console.log(`Canvas profile: ${profile.name} → ${profile.baseUrl} (${auth}, timeout ${profile.timeoutMs}ms)`);
+    }
+    if (oauthStore) {
+      console.log(`Canvas OAuth: sign in at /oauth/start (redirect URI ${CANVAS_OAUTH_REDIRECT_URI})`);
+    }
+    console.log(`Canvas retries: ${CANVAS_MAX_RETRIES} (deadline ${CANVAS_RETRY_DEADLINE_MS}ms)`);
+    console.log(`Canvas concurrency: ${CANVAS_CONCURRENCY} courses`);
+    console.log(`Canvas GraphQL: ${CANVAS_GRAPHQL_ENABLED ? 'enabled (REST fallback)' : 'disabled'}`);
+    console.log(`Data dir: ${DATA_DIR}`);
+    console.log(`Resource subscriptions: polled every ${RESOURCE_POLL_INTERVAL_MS}ms`);
+    console.log(`Response cache: ${CANVAS_CACHE_ENABLED ? `enabled (max ${CANVAS_CACHE_MAX_ENTRIES} entries)` : 'disabled'}`);
     if (MCP_AUTH_TOKEN) {
       console.log('MCP auth: Bearer token required');
     } else {
       console.log('MCP auth: disabled (no-auth mode)');
     }
+    if (ICS_AUTH_TOKEN) {
+      console.log('Calendar auth: token required (Bearer header or ?token=)');
+    } else {
+      console.log('Calendar auth: disabled (no-auth mode)');
+    }
   });
 }
 
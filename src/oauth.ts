@@ -0,0 +1,349 @@
+/**
+ * Canvas OAuth2 (authorization code flow) for schools that don't allow personal access tokens
+ *
+ * - OAuthManager builds the authorize URL, exchanges the callback code and refreshes tokens;
+ *   it is the CanvasClient's token provider, so a 401 triggers one refresh and a retry
+ * - OAuthTokenStore keeps tokens for every profile in one file, encrypted with AES-256-GCM
+ *   (key derived from OAUTH_ENCRYPTION_KEY with scrypt)
+ */
+
+import fs from 'fs';
+import { promises as fsp } from 'fs';
+import path from 'path';
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from 'crypto';
+
+export interface StoredToken {
+  access_token: string;
+  refresh_token: string | null;
+  /** ISO timestamp; null when Canvas did not send expires_in */
+  expires_at: string | null;
+  user: { id: number; name: string } | null;
+  connected_at: string;
+}
+
+/**
+ * Supplies the bearer token for Canvas requests
+ */
+export interface TokenProvider {
+  getToken(): Promise<string>;
+  /**
+   * Called after Canvas rejected `rejected` with a 401
+   * Returns true when a different token is now available and the request should be retried
+   */
+  refresh(rejected: string): Promise<boolean>;
+}
+
+export interface OAuthStatus {
+  connected: boolean;
+  user: { id: number; name: string } | null;
+  expires_at: string | null;
+  connected_at: string | null;
+}
+
+interface EncryptedFile {
+  version: 1;
+  salt: string;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+const FILE_NAME = 'canvas-oauth.json';
+
+// Refresh this long before expiry so requests don't race the deadline
+const EXPIRY_MARGIN_MS = 60 * 1000;
+
+const TOKEN_TIMEOUT_MS = 15000;
+
+function makeError(code: string, message: string): Error {
+  const err = new Error(message);
+  (err as any).code = code;
+  return err;
+}
+
+export class OAuthTokenStore {
+  private filePath: string;
+  private secret: string;
+  private salt: Buffer;
+  private key: Buffer;
+  private tokens: Record<string, StoredToken>;
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(dataDir: string, secret: string) {
+    this.filePath = path.join(dataDir, FILE_NAME);
+    this.secret = secret;
+    this.salt = randomBytes(16);
+    this.key = scryptSync(secret, this.salt, 32);
+    this.tokens = this.load();
+  }
+
+  private load(): Record<string, StoredToken> {
+    let raw: string;
+    try {
+      raw = fs.readFileSync(this.filePath, 'utf8');
+    } catch (err: any) {
+      if (err?.code !== 'ENOENT') {
+        console.log(JSON.stringify({ level: 'warn', event: 'oauth_store_load', message: 'Unreadable token file, starting disconnected' }));
+      }
+      return {};
+    }
+
+    try {
+      const file = JSON.parse(raw) as EncryptedFile;
+      if (file.version !== 1) {
+        throw new Error('unsupported version');
+      }
+      // Keep the file's salt so the key stays stable across restarts
+      this.salt = Buffer.from(file.salt, 'base64');
+      this.key = scryptSync(this.secret, this.salt, 32);
+      const decipher = createDecipheriv('aes-256-gcm', this.key, Buffer.from(file.iv, 'base64'));
+      decipher.setAuthTag(Buffer.from(file.tag, 'base64'));
+      const plain = Buffer.concat([decipher.update(Buffer.from(file.data, 'base64')), decipher.final()]);
+      return JSON.parse(plain.toString('utf8'));
+    } catch {
+      // Wrong OAUTH_ENCRYPTION_KEY or a corrupted file; never log its contents
+      console.log(JSON.stringify({ level: 'warn', event: 'oauth_store_load', message: 'Token file could not be decrypted, starting disconnected' }));
+      return {};
+    }
+  }
+
+  /**
+   * Encrypt and persist asynchronously (temp file, then rename); writes are serialized
+   */
+  private persist(): void {
+    const iv = randomBytes(12);
+    const cipher = createCipheriv('aes-256-gcm', this.key, iv);
+    const data = Buffer.concat([cipher.update(JSON.stringify(this.tokens), 'utf8'), cipher.final()]);
+    const file: EncryptedFile = {
+      version: 1,
+      salt: this.salt.toString('base64'),
+      iv: iv.toString('base64'),
+      tag: cipher.getAuthTag().toString('base64'),
+      data: data.toString('base64'),
+    };
+
+    this.writing = this.writing
+      .then(async () => {
+        await fsp.mkdir(path.dirname(this.filePath), { recursive: true });
+        const tmp = `${this.filePath}.tmp`;
+        await fsp.writeFile(tmp, JSON.stringify(file), { encoding: 'utf8', mode: 0o600 });
+        await fsp.rename(tmp, this.filePath);
+      })
+      .catch((err: any) => {
+        console.log(JSON.stringify({ level: 'error', event: 'oauth_store_write', code: err?.code || 'write_failed' }));
+      });
+  }
+
+  get(profile: string): StoredToken | null {
+    return this.tokens[profile] ?? null;
+  }
+
+  set(profile: string, token: StoredToken): void {
+    this.tokens[profile] = token;
+    this.persist();
+  }
+
+  delete(profile: string): void {
+    if (this.tokens[profile]) {
+      delete this.tokens[profile];
+      this.persist();
+    }
+  }
+
+  async flush(): Promise<void> {
+    await this.writing;
+  }
+}
+
+export interface OAuthConfig {
+  profile: string;
+  baseUrl: string;
+  clientId: string;
+  clientSecret: string;
+  redirectUri: string;
+  /** Space-separated scopes, for developer keys that enforce scopes */
+  scopes?: string;
+  store: OAuthTokenStore;
+  /** Personal access token used until the profile is connected */
+  fallbackToken?: string;
+}
+
+interface RawTokenResponse {
+  access_token?: string;
+  refresh_token?: string;
+  expires_in?: number;
+  user?: { id: number; name: string };
+  error?: string;
+  error_description?: string;
+}
+
+export class OAuthManager implements TokenProvider {
+  private config: OAuthConfig;
+  private baseUrl: string;
+  private refreshing: Promise<boolean> | null = null;
+
+  constructor(config: OAuthConfig) {
+    this.config = config;
+    this.baseUrl = config.baseUrl.replace(/\/$/, '');
+  }
+
+  get profile(): string {
+    return this.config.profile;
+  }
+
+  /**
+   * Canvas authorize URL to send the browser to
+   */
+  authorizeUrl(state: string): string {
+    const url = new URL(`${this.baseUrl}/login/oauth2/auth`);
+    url.searchParams.set('client_id', this.config.clientId);
+    url.searchParams.set('response_type', 'code');
+    url.searchParams.set('redirect_uri', this.config.redirectUri);
+    url.searchParams.set('state', state);
+    if (this.config.scopes) {
+      url.searchParams.set('scope', this.config.scopes);
+    }
+    return url.toString();
+  }
+
+  /**
+   * POST to the Canvas token endpoint
+   */
+  private async tokenRequest(params: Record<string, string>): Promise<RawTokenResponse> {
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseUrl}/login/oauth2/token`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded', 'Accept': 'application/json' },
+        body: new URLSearchParams({
+          client_id: this.config.clientId,
+          client_secret: this.config.clientSecret,
+          ...params,
+        }).toString(),
+        signal: AbortSignal.timeout(TOKEN_TIMEOUT_MS),
+      });
+    } catch (err: any) {
+      if (err?.name === 'TimeoutError' || err?.name === 'AbortError') {
+        throw makeError('timeout', `Canvas token request timed out after ${TOKEN_TIMEOUT_MS}ms`);
+      }
+      throw err;
+    }
+
+    let body: RawTokenResponse;
+    try {
+      body = await response.json() as RawTokenResponse;
+    } catch {
+      throw makeError('invalid_response', 'Invalid Canvas token response');
+    }
+
+    if (!response.ok || !body.access_token) {
+      const e = makeError('oauth_error', `Canvas token request failed: ${body.error || response.status}${body.error_description ? ` (${body.error_description})` : ''}`);
+      (e as any).status = response.status;
+      throw e;
+    }
+    return body;
+  }
+
+  private expiresAt(expiresIn: number | undefined): string | null {
+    return typeof expiresIn === 'number' ? new Date(Date.now() + expiresIn * 1000).toISOString() : null;
+  }
+
+  /**
+   * Exchange the authorization code from the callback and store the tokens
+   */
+  async exchangeCode(code: string): Promise<OAuthStatus> {
+    const body = await this.tokenRequest({
+      grant_type: 'authorization_code',
+      redirect_uri: this.config.redirectUri,
+      code,
+    });
+
+    this.config.store.set(this.profile, {
+      access_token: body.access_token!,
+      refresh_token: body.refresh_token ?? null,
+      expires_at: this.expiresAt(body.expires_in),
+      user: body.user ? { id: body.user.id, name: body.user.name } : null,
+      connected_at: new Date().toISOString(),
+    });
+    console.log(JSON.stringify({ level: 'info', event: 'oauth_connected', profile: this.profile, user_id: body.user?.id ?? null }));
+    return this.status();
+  }
+
+  status(): OAuthStatus {
+    const token = this.config.store.get(this.profile);
+    return {
+      connected: token !== null,
+      user: token?.user ?? null,
+      expires_at: token?.expires_at ?? null,
+      connected_at: token?.connected_at ?? null,
+    };
+  }
+
+  async getToken(): Promise<string> {
+    let token = this.config.store.get(this.profile);
+    if (!token && this.config.fallbackToken) {
+      return this.config.fallbackToken;
+    }
+    if (!token) {
+      throw makeError('not_authenticated', `Canvas profile "${this.profile}" is not connected; open /oauth/start?profile=${this.profile} to sign in`);
+    }
+
+    const expires = token.expires_at ? new Date(token.expires_at).getTime() : Infinity;
+    if (expires - Date.now() < EXPIRY_MARGIN_MS && token.refresh_token) {
+      await this.refresh(token.access_token);
+      token = this.config.store.get(this.profile);
+      if (!token) {
+        throw makeError('not_authenticated', `Canvas profile "${this.profile}" needs to sign in again at /oauth/start?profile=${this.profile}`);
+      }
+    }
+    return token.access_token;
+  }
+
+  /**
+   * Use the refresh token to get a new access token (concurrent callers share one request)
+   * A rejected refresh token disconnects the profile; the user must sign in again
+   */
+  async refresh(rejected: string): Promise<boolean> {
+    const current = this.config.store.get(this.profile);
+    if (!current) {
+      return false;
+    }
+    if (current.access_token !== rejected) {
+      // Another request already refreshed
+      return true;
+    }
+    if (!current.refresh_token) {
+      return false;
+    }
+
+    if (!this.refreshing) {
+      this.refreshing = (async () => {
+        try {
+          const body = await this.tokenRequest({
+            grant_type: 'refresh_token',
+            refresh_token: current.refresh_token!,
+          });
+          this.config.store.set(this.profile, {
+            ...current,
+            access_token: body.access_token!,
+            // Canvas keeps the refresh token unless it sends a new one
+            refresh_token: body.refresh_token ?? current.refresh_token,
+            expires_at: this.expiresAt(body.expires_in),
+          });
+          console.log(JSON.stringify({ level: 'info', event: 'oauth_refreshed', profile: this.profile }));
+          return true;
+        } catch (err: any) {
+          console.log(JSON.stringify({ level: 'error', event: 'oauth_refresh_failed', profile: this.profile, code: err?.code || 'internal_error' }));
+          if (err?.code === 'oauth_error' && (err?.status === 400 || err?.status === 401)) {
+            // invalid_grant: the refresh token was revoked or expired
+            this.config.store.delete(this.profile);
+          }
+          return false;
+        } finally {
+          this.refreshing = null;
+        }
+      })();
+    }
+    return this.refreshing;
+  }
+}
@@ -0,0 +1,597 @@
+/**
+ * Output schemas for the MCP tools (Tool.outputSchema)
+ *
+ * Every tool returns structuredContent matching its schema. Structured content must be a JSON
+ * object, so tools that produce a list wrap it (e.g. list_pages returns { pages: [...] }).
+ * SchemaType derives the TypeScript type a schema describes: handleToolCall only compiles when
+ * each result fits its tool's schema, and the SchemaChecks at the end tie the schemas to the
+ * exported client types.
+ */
+
+import {
+  Course,
+  CourseAssignment,
+  CourseGrades,
+  SubmissionStatus,
+  UpcomingAssignments,
+} from './canvas-client.js';
+
+type RequiredKeys<S> = S extends { required: readonly (infer K)[] } ? K : never;
+
+type ObjectType<S> = S extends { properties: infer P }
+  ? { -readonly [K in keyof P as K extends RequiredKeys<S> ? K : never]: SchemaType<P[K]> }
+    & { -readonly [K in keyof P as K extends RequiredKeys<S> ? never : K]?: SchemaType<P[K]> }
+  : S extends { additionalProperties: infer A }
+    ? Record<string, SchemaType<A>>
+    : Record<string, unknown>;
+
+type TypeOf<T, S> =
+  T extends 'string' ? string :
+  T extends 'number' | 'integer' ? number :
+  T extends 'boolean' ? boolean :
+  T extends 'null' ? null :
+  T extends 'array' ? (S extends { items: infer I } ? SchemaType<I>[] : unknown[]) :
+  T extends 'object' ? ObjectType<S> :
+  unknown;
+
+/**
+ * TypeScript type of the values a schema accepts (the subset of JSON Schema used below)
+ */
+export type SchemaType<S> =
+  S extends { anyOf: readonly (infer A)[] } ? SchemaType<A> :
+  S extends { enum: readonly (infer E)[] } ? E :
+  S extends { type: readonly (infer T)[] } ? TypeOf<T, S> :
+  S extends { type: infer T } ? TypeOf<T, S> :
+  unknown;
+
+type Properties = Record<string, unknown>;
+
+/**
+ * Object schema: every property in `properties` is required, those in `optional` may be absent
+ */
+function object<const P extends Properties, const O extends Properties = {}>(properties: P, optional?: O) {
+  return {
+    type: 'object',
+    properties: { ...properties, ...optional } as P & O,
+    required: Object.keys(properties) as Array<keyof P & string>,
+  } as const;
+}
+
+function nullableObject<const P extends Properties>(properties: P) {
+  return { ...object(properties), type: ['object', 'null'] } as const;
+}
+
+function list<const I>(items: I) {
+  return { type: 'array', items } as const;
+}
+
+function oneOf<const V extends readonly string[]>(...values: V) {
+  return { type: 'string', enum: values } as const;
+}
+
+const STRING = { type: 'string' } as const;
+const NUMBER = { type: 'number' } as const;
+const INTEGER = { type: 'integer' } as const;
+const BOOLEAN = { type: 'boolean' } as const;
+const NULLABLE_STRING = { type: ['string', 'null'] } as const;
+const NULLABLE_NUMBER = { type: ['number', 'null'] } as const;
+const NULLABLE_INTEGER = { type: ['integer', 'null'] } as const;
+const NULLABLE_BOOLEAN = { type: ['boolean', 'null'] } as const;
+const STRING_LIST = list(STRING);
+
+// Set on items when results from several Canvas profiles are merged
+const PROFILE_TAG = {
+  type: 'string',
+  description: 'Canvas profile the item came from (only when several profiles were merged)',
+} as const;
+
+const PARTIAL_FAILURES = {
+  ...list(object(
+    { course_id: NULLABLE_INTEGER, code: STRING },
+    { student_id: INTEGER, profile: STRING }
+  )),
+  description: 'Courses that could not be checked (course_id is null when a whole student or profile failed)',
+} as const;
+
+// Window of long content (see sliceContent); pass next_cursor back as cursor to continue
+const CONTENT_SLICE_PROPERTIES = {
+  content: STRING,
+  content_length: INTEGER,
+  truncated: BOOLEAN,
+  next_cursor: NULLABLE_STRING,
+} as const;
+
+const COURSE_PROPERTIES = {
+  id: INTEGER,
+  name: STRING,
+  course_code: STRING,
+  enrollment_state: STRING,
+} as const;
+
+const COURSE = object(COURSE_PROPERTIES);
+
+const COURSE_ASSIGNMENT = object({
+  id: INTEGER,
+  name: STRING,
+  due_at: NULLABLE_STRING,
+  unlock_at: NULLABLE_STRING,
+  lock_at: NULLABLE_STRING,
+  points_possible: NUMBER,
+  submission_types: STRING_LIST,
+  submission_status: nullableObject({
+    workflow_state: STRING,
+    submitted_at: NULLABLE_STRING,
+    missing: BOOLEAN,
+    late: BOOLEAN,
+  }),
+});
+
+const SUBMISSION_STATUS = object({
+  assignment_id: INTEGER,
+  name: NULLABLE_STRING,
+  workflow_state: STRING,
+  submitted_at: NULLABLE_STRING,
+  graded_at: NULLABLE_STRING,
+  score: NULLABLE_NUMBER,
+  late: BOOLEAN,
+  missing: BOOLEAN,
+  excused: BOOLEAN,
+});
+
+const ENROLLMENT_PROPERTIES = {
+  enrollment_state: STRING,
+  term_id: NULLABLE_INTEGER,
+  course_start_at: NULLABLE_STRING,
+  course_end_at: NULLABLE_STRING,
+} as const;
+
+const COURSE_GRADES = {
+  type: 'object',
+  anyOf: [
+    object({
+      course_id: INTEGER,
+      available: { type: 'boolean', enum: [true] },
+      current_score: NULLABLE_NUMBER,
+      current_grade: NULLABLE_STRING,
+      final_score: NULLABLE_NUMBER,
+      final_grade: NULLABLE_STRING,
+      ...ENROLLMENT_PROPERTIES,
+      last_updated: NULLABLE_STRING,
+    }),
+    object({
+      course_id: INTEGER,
+      available: { type: 'boolean', enum: [false] },
+      reason: oneOf('no_grades_yet'),
+      ...ENROLLMENT_PROPERTIES,
+    }),
+    object({
+      course_id: INTEGER,
+      available: { type: 'boolean', enum: [false] },
+      reason: oneOf('hidden_or_unavailable'),
+    }),
+  ],
+} as const;
+
+const UPCOMING = object({
+  assignments: list(object(
+    {
+      course_id: INTEGER,
+      course_name: STRING,
+      assignment_id: INTEGER,
+      name: STRING,
+      due_at: NULLABLE_STRING,
+      status: oneOf('submitted', 'unsubmitted', 'missing'),
+      points_possible: NUMBER,
+    },
+    { student_id: INTEGER, student_name: STRING, profile: PROFILE_TAG }
+  )),
+  partial_failures: PARTIAL_FAILURES,
+});
+
+const CHANGE_EVENTS = list(object(
+  {
+    detected_at: STRING,
+    course_id: INTEGER,
+    course_name: NULLABLE_STRING,
+    assignment_id: NULLABLE_INTEGER,
+    name: NULLABLE_STRING,
+    before: { type: ['string', 'number', 'null'] },
+    after: { type: ['string', 'number', 'null'] },
+  },
+  { profile: PROFILE_TAG }
+));
+
+const CACHE_STATS = object({
+  enabled: BOOLEAN,
+  entries: INTEGER,
+  max_entries: INTEGER,
+  hits: INTEGER,
+  misses: INTEGER,
+  revalidated: INTEGER,
+  deduplicated: INTEGER,
+  bypassed: INTEGER,
+  evictions: INTEGER,
+  cleared: INTEGER,
+});
+
+export const OUTPUT_SCHEMAS = {
+  list_courses: object({
+    courses: list(object(COURSE_PROPERTIES, { profile: PROFILE_TAG })),
+    partial_failures: PARTIAL_FAILURES,
+  }),
+
+  list_students: object({
+    students: list(object({ id: INTEGER, name: STRING, short_name: NULLABLE_STRING })),
+  }),
+
+  list_assignments: object({
+    assignments: list(COURSE_ASSIGNMENT),
+  }),
+
+  get_submission_status: SUBMISSION_STATUS,
+
+  get_submission_feedback: object({
+    assignment_id: INTEGER,
+    name: NULLABLE_STRING,
+    points_possible: NULLABLE_NUMBER,
+    workflow_state: NULLABLE_STRING,
+    attempt: NULLABLE_INTEGER,
+    score: NULLABLE_NUMBER,
+    grade: NULLABLE_STRING,
+    graded_at: NULLABLE_STRING,
+    excused: BOOLEAN,
+    comments: list(object({
+      author: NULLABLE_STRING,
+      created_at: NULLABLE_STRING,
+      attempt: NULLABLE_INTEGER,
+      text: STRING,
+      attachments: STRING_LIST,
+    })),
+    rubric_assessment: list(object({
+      criterion_id: STRING,
+      criterion: NULLABLE_STRING,
+      points: NULLABLE_NUMBER,
+      points_possible: NULLABLE_NUMBER,
+      rating: NULLABLE_STRING,
+      comments: NULLABLE_STRING,
+    })),
+    attempts: list(object({
+      attempt: INTEGER,
+      workflow_state: NULLABLE_STRING,
+      submission_type: NULLABLE_STRING,
+      submitted_at: NULLABLE_STRING,
+      graded_at: NULLABLE_STRING,
+      score: NULLABLE_NUMBER,
+      grade: NULLABLE_STRING,
+      late: BOOLEAN,
+    })),
+  }),
+
+  get_assignment: object({
+    id: INTEGER,
+    course_id: INTEGER,
+    name: STRING,
+    html_url: NULLABLE_STRING,
+    due_at: NULLABLE_STRING,
+    unlock_at: NULLABLE_STRING,
+    lock_at: NULLABLE_STRING,
+    points_possible: NUMBER,
+    grading_type: NULLABLE_STRING,
+    submission_types: STRING_LIST,
+    allowed_attempts: NULLABLE_INTEGER,
+    allowed_extensions: STRING_LIST,
+    locked_for_user: BOOLEAN,
+    lock_explanation: NULLABLE_STRING,
+    is_group_assignment: BOOLEAN,
+    group_category: nullableObject({ id: INTEGER, name: NULLABLE_STRING }),
+    assignment_group: nullableObject({ id: INTEGER, name: NULLABLE_STRING, group_weight: NULLABLE_NUMBER }),
+    rubric: nullableObject({
+      title: NULLABLE_STRING,
+      points_possible: NULLABLE_NUMBER,
+      used_for_grading: BOOLEAN,
+      criteria: list(object({
+        id: STRING,
+        description: NULLABLE_STRING,
+        long_description: NULLABLE_STRING,
+        points: NULLABLE_NUMBER,
+        ratings: list(object({
+          description: NULLABLE_STRING,
+          long_description: NULLABLE_STRING,
+          points: NULLABLE_NUMBER,
+        })),
+      })),
+    }),
+    description: STRING,
+  }),
+
+  get_course_grades: COURSE_GRADES,
+
+  get_grade_breakdown: object({
+    course_id: INTEGER,
+    course_name: STRING,
+    weighted: BOOLEAN,
+    current_score: NULLABLE_NUMBER,
+    groups: list(object({
+      id: INTEGER,
+      name: STRING,
+      weight: NULLABLE_NUMBER,
+      rules: object({ drop_lowest: INTEGER, drop_highest: INTEGER, never_drop: list(INTEGER) }),
+      earned: NULLABLE_NUMBER,
+      possible: NULLABLE_NUMBER,
+      percent: NULLABLE_NUMBER,
+      weighted_contribution: NULLABLE_NUMBER,
+      points_lost: NULLABLE_NUMBER,
+      assignments: list(object({
+        id: INTEGER,
+        name: STRING,
+        due_at: NULLABLE_STRING,
+        score: NULLABLE_NUMBER,
+        points_possible: NUMBER,
+        graded: BOOLEAN,
+        excused: BOOLEAN,
+        omitted: BOOLEAN,
+        dropped: BOOLEAN,
+      })),
+    })),
+  }),
+
+  calculate_what_if: object({
+    course_id: INTEGER,
+    course_name: STRING,
+    weighted: BOOLEAN,
+    grading_standard: STRING,
+    grading_standard_source: oneOf('course', 'default'),
+    current: object({ score: NULLABLE_NUMBER, grade: NULLABLE_STRING }),
+    what_if: object({ score: NULLABLE_NUMBER, grade: NULLABLE_STRING }),
+    hypothetical_scores: list(object({
+      assignment_id: INTEGER,
+      name: STRING,
+      score: NUMBER,
+      points_possible: NUMBER,
+    })),
+    groups: list(object({
+      id: INTEGER,
+      name: STRING,
+      weight: NULLABLE_NUMBER,
+      percent: NULLABLE_NUMBER,
+      weighted_contribution: NULLABLE_NUMBER,
+    })),
+    solve: nullableObject({
+      assignment_id: INTEGER,
+      name: STRING,
+      points_possible: NUMBER,
+      target_grade: NULLABLE_STRING,
+      target_score: NULLABLE_NUMBER,
+      achievable: BOOLEAN,
+      required_score: NULLABLE_NUMBER,
+      required_percent: NULLABLE_NUMBER,
+    }),
+  }),
+
+  list_upcoming: UPCOMING,
+
+  what_changed: object({
+    since: NULLABLE_STRING,
+    checked_at: STRING,
+    baseline_created: BOOLEAN,
+    total_changes: INTEGER,
+    new_grades: CHANGE_EVENTS,
+    score_changes: CHANGE_EVENTS,
+    new_assignments: CHANGE_EVENTS,
+    due_date_changes: CHANGE_EVENTS,
+    newly_missing: CHANGE_EVENTS,
+    course_grade_changes: CHANGE_EVENTS,
+    partial_failures: PARTIAL_FAILURES,
+  }),
+
+  get_agenda: object({
+    items: list(object(
+      {
+        type: STRING,
+        id: INTEGER,
+        title: STRING,
+        course_id: NULLABLE_INTEGER,
+        course_name: NULLABLE_STRING,
+        date: NULLABLE_STRING,
+        end_at: NULLABLE_STRING,
+        all_day: BOOLEAN,
+        location: NULLABLE_STRING,
+        points_possible: NULLABLE_NUMBER,
+        completed: BOOLEAN,
+        dismissed: BOOLEAN,
+        submission: nullableObject({
+          submitted: BOOLEAN,
+          missing: BOOLEAN,
+          late: BOOLEAN,
+          graded: BOOLEAN,
+          excused: BOOLEAN,
+        }),
+        html_url: NULLABLE_STRING,
+      },
+      { profile: PROFILE_TAG }
+    )),
+    partial_failures: PARTIAL_FAILURES,
+  }),
+
+  list_announcements: object({
+    announcements: list(object({
+      id: INTEGER,
+      course_id: NULLABLE_INTEGER,
+      course_name: NULLABLE_STRING,
+      title: STRING,
+      author: NULLABLE_STRING,
+      posted_at: NULLABLE_STRING,
+      read_state: STRING,
+      html_url: NULLABLE_STRING,
+      message: STRING,
+    })),
+  }),
+
+  list_modules: object({
+    modules: list(object(
+      {
+        id: INTEGER,
+        name: STRING,
+        position: NULLABLE_INTEGER,
+        state: NULLABLE_STRING,
+        unlock_at: NULLABLE_STRING,
+        completed_at: NULLABLE_STRING,
+        require_sequential_progress: BOOLEAN,
+        prerequisites: list(object({ module_id: INTEGER, name: NULLABLE_STRING })),
+        requirements_total: INTEGER,
+        requirements_completed: INTEGER,
+        items_count: INTEGER,
+      },
+      {
+        // Omitted when include_items is false
+        items: list(object({
+          id: INTEGER,
+          title: STRING,
+          type: STRING,
+          indent: INTEGER,
+          content_id: NULLABLE_INTEGER,
+          page_url: NULLABLE_STRING,
+          url: NULLABLE_STRING,
+          due_at: NULLABLE_STRING,
+          points_possible: NULLABLE_NUMBER,
+          locked_for_user: BOOLEAN,
+          lock_explanation: NULLABLE_STRING,
+          completion_requirement: nullableObject({
+            type: STRING,
+            min_score: NULLABLE_NUMBER,
+            completed: BOOLEAN,
+          }),
+        })),
+      }
+    )),
+  }),
+
+  list_pages: object({
+    pages: list(object({
+      page_id: INTEGER,
+      url: STRING,
+      title: STRING,
+      updated_at: NULLABLE_STRING,
+      published: BOOLEAN,
+      front_page: BOOLEAN,
+      locked_for_user: BOOLEAN,
+    })),
+  }),
+
+  get_page: object({
+    page_id: INTEGER,
+    url: STRING,
+    title: STRING,
+    updated_at: NULLABLE_STRING,
+    published: BOOLEAN,
+    front_page: BOOLEAN,
+    html_url: NULLABLE_STRING,
+    locked_for_user: BOOLEAN,
+    lock_explanation: NULLABLE_STRING,
+    ...CONTENT_SLICE_PROPERTIES,
+  }),
+
+  get_syllabus: object({
+    course_id: INTEGER,
+    course_name: STRING,
+    available: BOOLEAN,
+    html_url: STRING,
+    ...CONTENT_SLICE_PROPERTIES,
+  }),
+
+  list_discussions: object({
+    discussions: list(object({
+      id: INTEGER,
+      title: STRING,
+      author: NULLABLE_STRING,
+      posted_at: NULLABLE_STRING,
+      last_reply_at: NULLABLE_STRING,
+      due_at: NULLABLE_STRING,
+      todo_date: NULLABLE_STRING,
+      points_possible: NULLABLE_NUMBER,
+      graded: BOOLEAN,
+      pinned: BOOLEAN,
+      locked_for_user: BOOLEAN,
+      require_initial_post: BOOLEAN,
+      user_has_posted: NULLABLE_BOOLEAN,
+      entry_count: INTEGER,
+      unread_count: INTEGER,
+      read_state: STRING,
+      html_url: NULLABLE_STRING,
+    })),
+  }),
+
+  get_discussion: object({
+    id: INTEGER,
+    title: STRING,
+    author: NULLABLE_STRING,
+    posted_at: NULLABLE_STRING,
+    due_at: NULLABLE_STRING,
+    points_possible: NULLABLE_NUMBER,
+    require_initial_post: BOOLEAN,
+    user_has_posted: NULLABLE_BOOLEAN,
+    entries_hidden: BOOLEAN,
+    entry_count: INTEGER,
+    unread_count: INTEGER,
+    html_url: NULLABLE_STRING,
+    message: STRING,
+    ...CONTENT_SLICE_PROPERTIES,
+  }),
+
+  list_conversations: object({
+    conversations: list(object({
+      id: INTEGER,
+      subject: NULLABLE_STRING,
+      course_id: NULLABLE_INTEGER,
+      context_name: NULLABLE_STRING,
+      participants: STRING_LIST,
+      message_count: INTEGER,
+      last_message_at: NULLABLE_STRING,
+      last_message: NULLABLE_STRING,
+      read_state: STRING,
+      starred: BOOLEAN,
+    })),
+  }),
+
+  get_conversation: object({
+    id: INTEGER,
+    subject: NULLABLE_STRING,
+    course_id: NULLABLE_INTEGER,
+    context_name: NULLABLE_STRING,
+    participants: STRING_LIST,
+    read_state: STRING,
+    starred: BOOLEAN,
+    messages: list(object({
+      id: INTEGER,
+      author: NULLABLE_STRING,
+      created_at: NULLABLE_STRING,
+      body: STRING,
+      attachments: STRING_LIST,
+    })),
+  }),
+
+  // One stats object, or one per profile when several are configured and none is named
+  cache_stats: {
+    type: 'object',
+    anyOf: [CACHE_STATS, { type: 'object', additionalProperties: CACHE_STATS }],
+  },
+} as const;
+
+export type ToolName = keyof typeof OUTPUT_SCHEMAS;
+
+/**
+ * structuredContent of a tool, as described by its output schema
+ */
+export type ToolOutput<N extends ToolName> = SchemaType<(typeof OUTPUT_SCHEMAS)[N]>;
+
+type Same<A, B> = [A] extends [B] ? ([B] extends [A] ? true : false) : false;
+type Assert<T extends true> = T;
+
+// Fails to compile when a schema and the exported type it describes drift apart
+export type SchemaChecks = [
+  Assert<Same<SchemaType<typeof COURSE>, Course>>,
+  Assert<Same<SchemaType<typeof COURSE_ASSIGNMENT>, CourseAssignment>>,
+  Assert<Same<SchemaType<typeof SUBMISSION_STATUS>, SubmissionStatus>>,
+  Assert<Same<SchemaType<typeof COURSE_GRADES>, CourseGrades>>,
+  Assert<Same<SchemaType<typeof UPCOMING>, UpcomingAssignments>>,
+];
@@ -0,0 +1,262 @@
+/**
+ * Named Canvas profiles: several Canvas instances (or tokens) served by one server
+ *
+ * - CANVAS_BASE_URL / CANVAS_API_TOKEN define the profile named "default"
+ * - CANVAS_PROFILES=school,college adds named profiles, each configured with
+ *   CANVAS_PROFILE_<NAME>_BASE_URL, CANVAS_PROFILE_<NAME>_API_TOKEN and optionally
+ *   CANVAS_PROFILE_<NAME>_TIMEOUT_MS (NAME upper-cased, "-" becomes "_")
+ * - Instead of (or alongside) a token, a profile can sign in with OAuth2:
+ *   CANVAS_OAUTH_CLIENT_ID / CANVAS_OAUTH_CLIENT_SECRET for "default",
+ *   CANVAS_PROFILE_<NAME>_OAUTH_CLIENT_ID / _OAUTH_CLIENT_SECRET for named profiles
+ * - The first profile is used by tools called without `profile`; cross-course tools
+ *   merge every profile instead and tag each item with the profile it came from
+ */
+
+import { CanvasClient, PartialFailure } from './canvas-client.js';
+import { OAuthManager } from './oauth.js';
+
+export interface CanvasProfile {
+  name: string;
+  baseUrl: string;
+  /** Personal access token; with OAuth it is only used until the profile is connected */
+  apiToken: string | null;
+  oauth: { clientId: string; clientSecret: string } | null;
+  timeoutMs: number;
+}
+
+export interface ProfileClient {
+  name: string;
+  baseUrl: string;
+  client: CanvasClient;
+  /** Set for profiles that sign in with OAuth2 */
+  oauth?: OAuthManager;
+}
+
+const PROFILE_NAME = /^[a-z0-9][a-z0-9_-]*$/i;
+
+function parseTimeout(raw: string | undefined, fallback: number): number {
+  return Number.isFinite(Number(raw)) && raw !== undefined && raw.trim() !== ''
+    ? Math.max(1, Math.floor(Number(raw)))
+    : fallback;
+}
+
+function parseOAuth(clientId: string | undefined, clientSecret: string | undefined, prefix: string) {
+  if (!clientId && !clientSecret) {
+    return null;
+  }
+  if (!clientId || !clientSecret) {
+    throw new Error(`${prefix}OAUTH_CLIENT_ID and ${prefix}OAUTH_CLIENT_SECRET must be set together`);
+  }
+  return { clientId, clientSecret };
+}
+
+/**
+ * Read profiles from the environment
+ * Throws with a message naming the missing or invalid variable
+ */
+export function loadProfiles(env: NodeJS.ProcessEnv, defaultTimeoutMs: number): CanvasProfile[] {
+  const profiles: CanvasProfile[] = [];
+
+  const defaultOAuth = parseOAuth(env.CANVAS_OAUTH_CLIENT_ID, env.CANVAS_OAUTH_CLIENT_SECRET, 'CANVAS_');
+  if (env.CANVAS_BASE_URL || env.CANVAS_API_TOKEN || defaultOAuth) {
+    if (!env.CANVAS_BASE_URL || (!env.CANVAS_API_TOKEN && !defaultOAuth)) {
+      throw new Error('CANVAS_BASE_URL requires CANVAS_API_TOKEN or CANVAS_OAUTH_CLIENT_ID/CANVAS_OAUTH_CLIENT_SECRET');
+    }
+    profiles.push({
+      name: 'default',
+      baseUrl: env.CANVAS_BASE_URL,
+      apiToken: env.CANVAS_API_TOKEN || null,
+      oauth: defaultOAuth,
+      timeoutMs: defaultTimeoutMs,
+    });
+  }
+
+  const names = (env.CANVAS_PROFILES || '').split(',').map(n => n.trim()).filter(Boolean);
+  for (const name of names) {
+    if (!PROFILE_NAME.test(name)) {
+      throw new Error(`Invalid profile name "${name}" (letters, digits, "-" and "_" only)`);
+    }
+    if (profiles.some(p => p.name.toLowerCase() === name.toLowerCase())) {
+      throw new Error(`Duplicate profile name "${name}"`);
+    }
+
+    const prefix = `CANVAS_PROFILE_${name.toUpperCase().replace(/-/g, '_')}_`;
+    const baseUrl = env[`${prefix}BASE_URL`];
+    const apiToken = env[`${prefix}API_TOKEN`];
+    const oauth = parseOAuth(env[`${prefix}OAUTH_CLIENT_ID`], env[`${prefix}OAUTH_CLIENT_SECRET`], prefix);
+    if (!baseUrl || (!apiToken && !oauth)) {
+      throw new Error(`Profile "${name}" requires ${prefix}BASE_URL and ${prefix}API_TOKEN (or ${prefix}OAUTH_CLIENT_ID/${prefix}OAUTH_CLIENT_SECRET)`);
+    }
+
+    profiles.push({
+      name,
+      baseUrl,
+      apiToken: apiToken || null,
+      oauth,
+      timeoutMs: parseTimeout(env[`${prefix}TIMEOUT_MS`], defaultTimeoutMs),
+    });
+  }
+
+  return profiles;
+}
+
+/**
+ * The configured profiles and their clients
+ */
+export class CanvasProfiles {
+  private entries: ProfileClient[];
+
+  constructor(entries: ProfileClient[]) {
+    if (entries.length === 0) {
+      throw new Error('At least one Canvas profile is required');
+    }
+    this.entries = entries;
+  }
+
+  /**
+   * Whether more than one profile is configured (cross-course tools merge results)
+   */
+  get multiple(): boolean {
+    return this.entries.length > 1;
+  }
+
+  names(): string[] {
+    return this.entries.map(e => e.name);
+  }
+
+  all(): ProfileClient[] {
+    return this.entries.slice();
+  }
+
+  /**
+   * A profile by name; the first profile when name is omitted
+   */
+  get(name?: string): ProfileClient {
+    if (name === undefined) {
+      return this.entries[0];
+    }
+    const entry = this.entries.find(e => e.name.toLowerCase() === name.toLowerCase());
+    if (!entry) {
+      const e = new Error(`Unknown profile "${name}" (available: ${this.names().join(', ')})`);
+      (e as any).code = 'invalid_arguments';
+      throw e;
+    }
+    return entry;
+  }
+
+  /**
+   * The same profiles with every client skipping cache reads
+   */
+  withCacheBypass(): CanvasProfiles {
+    return new CanvasProfiles(this.entries.map(e => ({ ...e, client: e.client.withCacheBypass() })));
+  }
+
+  /**
+   * Run a task against every profile in parallel
+   * A failing profile becomes a partial failure (course_id null) instead of failing the call
+   */
+  private async settle<R>(task: (client: CanvasClient) => Promise<R>) {
+    const outcomes = await Promise.allSettled(this.entries.map(e => task(e.client)));
+    const results: Array<{ profile: string; value: R }> = [];
+    const failures: PartialFailure[] = [];
+
+    outcomes.forEach((outcome, i) => {
+      const profile = this.entries[i].name;
+      if (outcome.status === 'fulfilled') {
+        results.push({ profile, value: outcome.value });
+      } else {
+        // Errors that aren't about Canvas (e.g. snapshots_disabled) apply to every profile alike
+        if (outcome.reason?.code === 'snapshots_disabled' || outcome.reason?.code === 'invalid_arguments') {
+          throw outcome.reason;
+        }
+        const code = outcome.reason?.code || 'internal_error';
+        failures.push({ course_id: null, code, profile });
+        console.log(JSON.stringify({ level: 'warn', event: 'profile_failed', profile, code }));
+      }
+    });
+
+    return { results, failures };
+  }
+
+  /**
+   * Courses from every profile, each tagged with its profile
+   */
+  async listCourses() {
+    const { results, failures } = await this.settle(client => client.listCourses());
+    return {
+      courses: results.flatMap(({ profile, value }) => value.map(course => ({ profile, ...course }))),
+      partial_failures: failures,
+    };
+  }
+
+  /**
+   * Upcoming assignments from every profile, merged and sorted by due date
+   */
+  async listUpcoming(days: number, includeOverdue: boolean, courseIds?: (string | number)[]) {
+    const { results, failures } = await this.settle(client => client.listUpcoming(days, includeOverdue, courseIds));
+
+    const assignments = results.flatMap(({ profile, value }) => value.assignments.map(a => ({ profile, ...a })));
+    assignments.sort((a, b) => new Date(a.due_at!).getTime() - new Date(b.due_at!).getTime());
+
+    return {
+      assignments,
+      partial_failures: [
+        ...results.flatMap(({ profile, value }) => value.partial_failures.map(f => ({ ...f, profile }))),
+        ...failures,
+      ],
+    };
+  }
+
+  /**
+   * Agenda items from every profile, merged chronologically (undated items last)
+   */
+  async getAgenda(days: number, pastDays: number, includeCompleted: boolean, courseIds?: (string | number)[]) {
+    const { results, failures } = await this.settle(client => client.getAgenda(days, pastDays, includeCompleted, courseIds));
+
+    const items = results.flatMap(({ profile, value }) => value.items.map(item => ({ profile, ...item })));
+    items.sort((a, b) => {
+      const aTime = a.date ? new Date(a.date).getTime() : Infinity;
+      const bTime = b.date ? new Date(b.date).getTime() : Infinity;
+      return aTime - bTime;
+    });
+
+    return {
+      items,
+      partial_failures: [
+        ...results.flatMap(({ profile, value }) => value.partial_failures.map(f => ({ ...f, profile }))),
+        ...failures,
+      ],
+    };
+  }
+
+  /**
+   * Changes from every profile (each profile keeps its own snapshot file)
+   * since is the earliest per-profile starting point and checked_at the latest check
+   */
+  async whatChanged(since?: string, courseIds?: (string | number)[]) {
+    const { results, failures } = await this.settle(client => client.whatChanged(since, courseIds));
+
+    const tag = <T>(pick: (value: (typeof results)[number]['value']) => T[]) =>
+      results.flatMap(({ profile, value }) => pick(value).map(item => ({ profile, ...item })));
+
+    const sinceValues = results.map(r => r.value.since).filter((s): s is string => s !== null).sort();
+    const checkedValues = results.map(r => r.value.checked_at).sort();
+
+    return {
+      since: since ?? sinceValues[0] ?? null,
+      checked_at: checkedValues[checkedValues.length - 1] ?? new Date().toISOString(),
+      baseline_created: results.some(r => r.value.baseline_created),
+      total_changes: results.reduce((sum, r) => sum + r.value.total_changes, 0),
+      new_grades: tag(v => v.new_grades),
+      score_changes: tag(v => v.score_changes),
+      new_assignments: tag(v => v.new_assignments),
+      due_date_changes: tag(v => v.due_date_changes),
+      newly_missing: tag(v => v.newly_missing),
+      course_grade_changes: tag(v => v.course_grade_changes),
+      partial_failures: [
+        ...results.flatMap(({ profile, value }) => value.partial_failures.map(f => ({ ...f, profile }))),
+        ...failures,
+      ],
+    };
+  }
+}
@@ -0,0 +1,194 @@
+/**
+ * MCP prompts: conversation starters grounded in pre-fetched Canvas data
+ *
+ * Each prompt fetches what it needs through CanvasClient and embeds it as JSON in a single
+ * user message, followed by instructions for the answer. Prompt arguments arrive as strings.
+ */
+
+import { CanvasProfiles } from './profiles.js';
+
+function makeError(code: string, message: string): Error {
+  const err = new Error(message);
+  (err as any).code = code;
+  return err;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Longest absence catch_up_after_absence looks back over
+const MAX_ABSENCE_DAYS = 60;
+
+const PROFILE_ARGUMENT = {
+  name: 'profile',
+  description: 'Canvas profile (instance) to use, when several are configured (default: the first)',
+  required: false,
+};
+
+export const PROMPTS = [
+  {
+    name: 'weekly_plan',
+    title: 'Weekly plan',
+    description: 'Plan the coming days around upcoming deadlines, events and overdue work',
+    arguments: [
+      { name: 'days', description: 'Days to plan ahead, 1-30 (default: 7)', required: false },
+      PROFILE_ARGUMENT,
+    ],
+  },
+  {
+    name: 'grade_report',
+    title: 'Grade report',
+    description: 'Check in on a course grade: standing, weak assignment groups and missing work',
+    arguments: [
+      { name: 'course_id', description: 'The Canvas course ID', required: true },
+      PROFILE_ARGUMENT,
+    ],
+  },
+  {
+    name: 'catch_up_after_absence',
+    title: 'Catch up after an absence',
+    description: 'Summarize what was missed since a date and what to do first',
+    arguments: [
+      { name: 'since', description: `First day of the absence (ISO 8601 date, within the last ${MAX_ABSENCE_DAYS} days)`, required: true },
+      PROFILE_ARGUMENT,
+    ],
+  },
+] as const;
+
+type PromptArgs = Record<string, string | undefined>;
+
+/**
+ * A JSON data section for the prompt text
+ */
+function section(title: string, data: unknown): string {
+  return `## ${title}\n\n\`\`\`json\n${JSON.stringify(data, null, 2)}\n\`\`\``;
+}
+
+function userMessage(text: string) {
+  return { role: 'user' as const, content: { type: 'text' as const, text } };
+}
+
+function parseDays(value: string | undefined): number {
+  if (value === undefined || value === '') {
+    return 7;
+  }
+  const days = Number(value);
+  if (!Number.isInteger(days) || days < 1 || days > 30) {
+    throw makeError('invalid_arguments', 'days must be a whole number from 1 to 30');
+  }
+  return days;
+}
+
+/**
+ * Build a prompt's messages, fetching its Canvas data first
+ */
+export async function getPrompt(name: string, args: PromptArgs, canvasProfiles: CanvasProfiles) {
+  const client = canvasProfiles.get(args.profile).client;
+  const now = new Date();
+
+  switch (name) {
+    case 'weekly_plan': {
+      const days = parseDays(args.days);
+      const [agenda, upcoming] = await Promise.all([
+        client.getAgenda(days, 0, false),
+        client.listUpcoming(days, true),
+      ]);
+      const overdue = upcoming.assignments.filter(a => a.status !== 'submitted' && new Date(a.due_at!) < now);
+
+      return {
+        description: `Weekly plan for the next ${days} days`,
+        messages: [userMessage([
+          `Help me plan the next ${days} days of schoolwork. It is now ${now.toISOString()}.`,
+          section('Agenda (incomplete items: assignments, quizzes, discussions, events, peer reviews)', agenda.items),
+          section('Overdue and not submitted', overdue),
+          section('Courses that could not be checked', [...agenda.partial_failures, ...upcoming.partial_failures]),
+          [
+            'Using only the data above:',
+            '1. List anything overdue first and say whether it is still worth submitting.',
+            '2. Lay out a day-by-day plan that finishes each item before it is due, heavier items (more points) earlier.',
+            '3. Call out scheduled events such as exams or class meetings on the days they happen.',
+            '4. If some courses could not be checked, say which, so I can look at them myself.',
+            'Keep it short and practical; do not invent assignments that are not listed.',
+          ].join('\n'),
+        ].join('\n\n'))],
+      };
+    }
+
+    case 'grade_report': {
+      const courseId = args.course_id;
+      if (!courseId || !/^\d+$/.test(courseId)) {
+        throw makeError('invalid_arguments', 'course_id must be a numeric Canvas course ID');
+      }
+      const [grades, breakdown, missing] = await Promise.all([
+        client.getCourseGrades(courseId),
+        client.getGradeBreakdown(courseId),
+        client.listAssignments(courseId, true, 'missing'),
+      ]);
+
+      return {
+        description: `Grade report for course ${courseId}`,
+        messages: [userMessage([
+          `Give me a check-in on my grade in course ${courseId}.`,
+          section('Course grade (as reported by Canvas)', grades),
+          section('Breakdown by assignment group', breakdown),
+          section('Missing assignments', missing),
+          [
+            'Using only the data above:',
+            '1. State my current score and letter grade, and note if Canvas hides grades for this course.',
+            '2. Name the assignment groups pulling the grade down most, taking group weights into account.',
+            '3. List missing work and how many points it is worth.',
+            '4. Suggest the two or three actions that would help the grade most.',
+            'Do not guess scores that are not in the data.',
+          ].join('\n'),
+        ].join('\n\n'))],
+      };
+    }
+
+    case 'catch_up_after_absence': {
+      const since = args.since;
+      const sinceTime = since ? Date.parse(since) : NaN;
+      if (!since || isNaN(sinceTime)) {
+        throw makeError('invalid_arguments', 'since must be an ISO 8601 date');
+      }
+      if (sinceTime > now.getTime() || now.getTime() - sinceTime > MAX_ABSENCE_DAYS * DAY_MS) {
+        throw makeError('invalid_arguments', `since must be in the past and within the last ${MAX_ABSENCE_DAYS} days`);
+      }
+      const sinceIso = new Date(sinceTime).toISOString();
+      const pastDays = Math.ceil((now.getTime() - sinceTime) / DAY_MS);
+
+      const [agenda, announcements, changes] = await Promise.all([
+        client.getAgenda(7, pastDays, false),
+        client.listAnnouncements(undefined, sinceIso),
+        // Change tracking needs the snapshot store; the prompt works without it. Reading changes
+        // here must not count as a what_changed check, or the next call would skip them
+        client.whatChanged(sinceIso, undefined, false).catch((err: any) => {
+          if (err?.code === 'snapshots_disabled') {
+            return null;
+          }
+          throw err;
+        }),
+      ]);
+
+      return {
+        description: `Catch-up since ${sinceIso.slice(0, 10)}`,
+        messages: [userMessage([
+          `I was away from ${sinceIso.slice(0, 10)} until now (${now.toISOString()}). Help me catch up.`,
+          section('Incomplete work from the absence and the coming week', agenda.items),
+          section('Announcements posted since then', announcements),
+          ...(changes ? [section('Grades, new assignments and due-date changes since then', changes)] : []),
+          section('Courses that could not be checked', [...agenda.partial_failures, ...(changes?.partial_failures ?? [])]),
+          [
+            'Using only the data above:',
+            '1. Summarize the announcements that matter (schedule changes, exam info, extensions).',
+            '2. List work I missed, grouped by course, and what is still open to submit.',
+            '3. Note new grades and changed due dates.',
+            '4. Give me a prioritized to-do list for the next few days, including whom to email about missed work.',
+            'Do not invent items that are not listed.',
+          ].join('\n'),
+        ].join('\n\n'))],
+      };
+    }
+
+    default:
+      throw makeError('invalid_arguments', `Unknown prompt: ${name}`);
+  }
+}
@@ -0,0 +1,226 @@
+/**
+ * Request scheduler for Canvas API calls: rate-limit pacing and retry with backoff
+ *
+ * Canvas throttles with a leaky bucket per token. Each response reports the bucket state in
+ * X-Rate-Limit-Remaining and the request's cost in X-Request-Cost; an empty bucket yields
+ * 403 "Rate Limit Exceeded" (some proxies answer 429). The scheduler:
+ * - Waits before a request while the estimated bucket is below a low-water mark
+ * - Retries GETs on 429, 5xx, throttled 403, timeouts and network errors
+ *   with full-jitter exponential backoff (Retry-After is honored)
+ * - Gives up after maxRetries or when the next attempt would pass the overall deadline
+ *
+ * mapSettled bounds how many requests cross-course tools have in flight at once.
+ */
+
+export interface SchedulerOptions {
+  /** Retries after the first attempt (default: 3) */
+  maxRetries?: number;
+  /** Overall time budget for one request including retries (default: 30000ms) */
+  deadlineMs?: number;
+}
+
+export interface RateLimitState {
+  remaining: number | null;
+  last_cost: number | null;
+  updated_at: string | null;
+  throttled: number;
+  retries: number;
+}
+
+// Canvas's default bucket holds 700 units and drains at roughly 10 units per second (approximate)
+const LOW_WATER = 150;
+const LEAK_PER_SECOND = 10;
+const MAX_PACE_MS = 5000;
+
+const BASE_DELAY_MS = 500;
+const MAX_DELAY_MS = 8000;
+
+const RETRYABLE_STATUS = new Set([429, 500, 502, 503, 504]);
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Whether a response is Canvas throttling (403 "Rate Limit Exceeded" or 429)
+ * Reads a clone of the body so the caller can still consume it
+ */
+export async function isThrottled(response: Response): Promise<boolean> {
+  if (response.status === 429) {
+    return true;
+  }
+  if (response.status !== 403) {
+    return false;
+  }
+  const remaining = Number(response.headers.get('X-Rate-Limit-Remaining'));
+  if (response.headers.has('X-Rate-Limit-Remaining') && Number.isFinite(remaining) && remaining <= 0) {
+    return true;
+  }
+  try {
+    const text = await response.clone().text();
+    return /rate limit exceeded/i.test(text);
+  } catch {
+    return false;
+  }
+}
+
+function isRetryableError(err: any): boolean {
+  // Timeouts from fetchWithTimeout and network failures from fetch (TypeError: fetch failed)
+  return err?.code === 'timeout' || err?.name === 'TypeError';
+}
+
+function retryAfterMs(response: Response | undefined): number | null {
+  const header = response?.headers.get('Retry-After');
+  if (!header) {
+    return null;
+  }
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(header);
+  return Number.isFinite(date) ? Math.max(0, date - Date.now()) : null;
+}
+
+export class RequestScheduler {
+  private maxRetries: number;
+  private deadlineMs: number;
+  private state: RateLimitState = { remaining: null, last_cost: null, updated_at: null, throttled: 0, retries: 0 };
+  private observedAt = 0;
+
+  constructor(options: SchedulerOptions = {}) {
+    this.maxRetries = typeof options.maxRetries === 'number' && options.maxRetries >= 0 ? Math.floor(options.maxRetries) : 3;
+    this.deadlineMs = typeof options.deadlineMs === 'number' && options.deadlineMs > 0 ? Math.floor(options.deadlineMs) : 30000;
+  }
+
+  rateLimitState(): RateLimitState {
+    return { ...this.state };
+  }
+
+  /**
+   * Record rate-limit headers from a response
+   */
+  private observe(response: Response): void {
+    const remaining = Number(response.headers.get('X-Rate-Limit-Remaining'));
+    const cost = Number(response.headers.get('X-Request-Cost'));
+    if (response.headers.has('X-Rate-Limit-Remaining') && Number.isFinite(remaining)) {
+      this.state.remaining = remaining;
+      this.state.updated_at = new Date().toISOString();
+      this.observedAt = Date.now();
+    }
+    if (response.headers.has('X-Request-Cost') && Number.isFinite(cost)) {
+      this.state.last_cost = cost;
+    }
+  }
+
+  /**
+   * Wait while the bucket (estimated from the last report plus leakage since) is nearly drained
+   * Never waits past the request's deadline
+   */
+  private async pace(deadline: number): Promise<void> {
+    if (this.state.remaining === null) {
+      return;
+    }
+    const elapsed = (Date.now() - this.observedAt) / 1000;
+    const estimated = this.state.remaining + elapsed * LEAK_PER_SECOND;
+    if (estimated >= LOW_WATER) {
+      return;
+    }
+    const wait = Math.min(MAX_PACE_MS, deadline - Date.now(), Math.ceil(((LOW_WATER - estimated) / LEAK_PER_SECOND) * 1000));
+    if (wait <= 0) {
+      return;
+    }
+    console.log(JSON.stringify({ level: 'warn', event: 'canvas_rate_limit_pace', rate_limit_remaining: this.state.remaining, wait_ms: wait }));
+    await sleep(wait);
+  }
+
+  /**
+   * Run an idempotent GET with pacing and retries
+   * Returns the final response (which may be a non-2xx the caller turns into an error)
+   */
+  async run(send: () => Promise<Response>): Promise<Response> {
+    const deadline = Date.now() + this.deadlineMs;
+
+    for (let attempt = 0; ; attempt++) {
+      await this.pace(deadline);
+
+      let response: Response | undefined;
+      let error: any;
+      try {
+        response = await send();
+        this.observe(response);
+      } catch (err) {
+        error = err;
+      }
+
+      let retryable: boolean;
+      let reason: string;
+      if (error) {
+        retryable = isRetryableError(error);
+        reason = error?.code || 'network_error';
+      } else if (await isThrottled(response!)) {
+        this.state.throttled++;
+        retryable = true;
+        reason = 'throttled';
+      } else {
+        retryable = RETRYABLE_STATUS.has(response!.status);
+        reason = `http_${response!.status}`;
+      }
+
+      const done = () => {
+        if (error) {
+          throw error;
+        }
+        return response!;
+      };
+
+      if (!retryable || attempt >= this.maxRetries) {
+        return done();
+      }
+
+      const backoff = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** attempt);
+      const delay = Math.max(retryAfterMs(response) ?? 0, Math.floor(Math.random() * backoff));
+      if (Date.now() + delay >= deadline) {
+        return done();
+      }
+
+      this.state.retries++;
+      console.log(JSON.stringify({
+        level: 'warn',
+        event: 'canvas_retry',
+        reason,
+        attempt: attempt + 1,
+        delay_ms: delay,
+        rate_limit_remaining: this.state.remaining,
+      }));
+      await sleep(delay);
+    }
+  }
+}
+
+/**
+ * Run task for each item with at most `limit` in flight
+ * Never rejects: outcomes are returned in input order, like Promise.allSettled
+ */
+export async function mapSettled<T, R>(
+  items: T[],
+  limit: number,
+  task: (item: T) => Promise<R>
+): Promise<PromiseSettledResult<R>[]> {
+  const outcomes: PromiseSettledResult<R>[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      try {
+        outcomes[index] = { status: 'fulfilled', value: await task(items[index]) };
+      } catch (reason) {
+        outcomes[index] = { status: 'rejected', reason };
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(Math.max(1, limit), items.length) }, worker));
+  return outcomes;
+}
@@ -0,0 +1,301 @@
+/**
+ * MCP resources for Canvas data
+ *
+ * URIs (add ?profile=<name> to read from a profile other than the first):
+ * - canvas://courses/{course_id}                             course with its assignments (JSON)
+ * - canvas://courses/{course_id}/assignments/{assignment_id} assignment details (JSON)
+ * - canvas://courses/{course_id}/syllabus                    syllabus (Markdown)
+ * - canvas://courses/{course_id}/pages/{page_url}            wiki page (Markdown)
+ *
+ * Subscribed URIs are re-read periodically; a change in content sends notifications/resources/updated.
+ */
+
+import { createHash } from 'crypto';
+import { CanvasProfiles } from './profiles.js';
+
+function makeError(code: string, message: string): Error {
+  const err = new Error(message);
+  (err as any).code = code;
+  return err;
+}
+
+export const RESOURCE_TEMPLATES = [
+  {
+    uriTemplate: 'canvas://courses/{course_id}',
+    name: 'course',
+    title: 'Course',
+    description: 'A course with its assignments, due dates and submission status',
+    mimeType: 'application/json',
+  },
+  {
+    uriTemplate: 'canvas://courses/{course_id}/assignments/{assignment_id}',
+    name: 'assignment',
+    title: 'Assignment',
+    description: 'Assignment instructions, rubric, submission requirements and lock dates',
+    mimeType: 'application/json',
+  },
+  {
+    uriTemplate: 'canvas://courses/{course_id}/syllabus',
+    name: 'syllabus',
+    title: 'Course syllabus',
+    description: 'The course syllabus as Markdown',
+    mimeType: 'text/markdown',
+  },
+  {
+    uriTemplate: 'canvas://courses/{course_id}/pages/{page_url}',
+    name: 'page',
+    title: 'Course page',
+    description: 'A course wiki page as Markdown (page_url is the page slug, e.g. "week-1-overview")',
+    mimeType: 'text/markdown',
+  },
+] as const;
+
+interface ResourceRef {
+  profile: string | undefined;
+  courseId: string;
+  kind: 'course' | 'assignment' | 'syllabus' | 'page';
+  id?: string;
+}
+
+/**
+ * Parse a canvas:// URI; throws resource_not_found for anything unrecognized
+ */
+function parseResourceUri(uri: unknown): ResourceRef {
+  if (typeof uri !== 'string' || !uri) {
+    throw makeError('invalid_arguments', 'uri is required');
+  }
+
+  let url: URL;
+  let segments: string[];
+  try {
+    url = new URL(uri);
+    // Malformed percent-escapes make decodeURIComponent throw URIError
+    segments = url.pathname.split('/').filter(Boolean).map(s => decodeURIComponent(s));
+  } catch {
+    throw makeError('resource_not_found', `Unknown resource: ${uri}`);
+  }
+
+  const profile = url.searchParams.get('profile') ?? undefined;
+  if (url.protocol === 'canvas:' && url.host === 'courses' && /^\d+$/.test(segments[0] ?? '')) {
+    const [courseId, section, id] = segments;
+    if (segments.length === 1) {
+      return { profile, courseId, kind: 'course' };
+    }
+    if (segments.length === 2 && section === 'syllabus') {
+      return { profile, courseId, kind: 'syllabus' };
+    }
+    if (segments.length === 3 && section === 'assignments' && /^\d+$/.test(id)) {
+      return { profile, courseId, kind: 'assignment', id };
+    }
+    if (segments.length === 3 && section === 'pages') {
+      return { profile, courseId, kind: 'page', id };
+    }
+  }
+
+  throw makeError('resource_not_found', `Unknown resource: ${uri}`);
+}
+
+/**
+ * Build a canvas:// URI (profile query only for profiles other than the first)
+ */
+function resourceUri(profiles: CanvasProfiles, profile: string, path: string): string {
+  return profile === profiles.names()[0]
+    ? `canvas://${path}`
+    : `canvas://${path}?profile=${encodeURIComponent(profile)}`;
+}
+
+/**
+ * Concrete resources: each active course and its syllabus, from every profile
+ * Assignments and pages are reachable through the templates
+ */
+export async function listResources(profiles: CanvasProfiles) {
+  const entries = profiles.all();
+  const outcomes = await Promise.allSettled(entries.map(e => e.client.listCourses()));
+
+  const resources: Array<{ uri: string; name: string; title: string; mimeType: string }> = [];
+  outcomes.forEach((outcome, i) => {
+    const profile = entries[i].name;
+    if (outcome.status === 'rejected') {
+      if (outcomes.every(o => o.status === 'rejected')) {
+        throw outcome.reason;
+      }
+      console.log(JSON.stringify({ level: 'warn', event: 'profile_failed', profile, code: outcome.reason?.code || 'internal_error' }));
+      return;
+    }
+
+    const suffix = profiles.multiple ? ` (${profile})` : '';
+    for (const course of outcome.value) {
+      resources.push({
+        uri: resourceUri(profiles, profile, `courses/${course.id}`),
+        name: `course-${course.id}`,
+        title: `${course.name}${suffix}`,
+        mimeType: 'application/json',
+      });
+      resources.push({
+        uri: resourceUri(profiles, profile, `courses/${course.id}/syllabus`),
+        name: `syllabus-${course.id}`,
+        title: `${course.name} syllabus${suffix}`,
+        mimeType: 'text/markdown',
+      });
+    }
+  });
+
+  return { resources };
+}
+
+/**
+ * Read one resource
+ * Canvas 404s (and 401/403 for content the user can't see) are reported as resource_not_found
+ */
+export async function readResource(uri: unknown, profiles: CanvasProfiles) {
+  const ref = parseResourceUri(uri);
+  const client = profiles.get(ref.profile).client;
+  const text = (value: string, mimeType: string) => ({ contents: [{ uri: uri as string, mimeType, text: value }] });
+
+  try {
+    switch (ref.kind) {
+      case 'course': {
+        const courses = await client.listCourses();
+        const course = courses.find(c => String(c.id) === ref.courseId);
+        if (!course) {
+          throw makeError('resource_not_found', `Course ${ref.courseId} is not one of your active courses`);
+        }
+        const assignments = await client.listAssignments(ref.courseId, true);
+        return text(JSON.stringify({ ...course, assignments }, null, 2), 'application/json');
+      }
+
+      case 'assignment': {
+        const assignment = await client.getAssignment(ref.courseId, ref.id!, 'markdown');
+        return text(JSON.stringify(assignment, null, 2), 'application/json');
+      }
+
+      case 'syllabus': {
+        const syllabus = await client.getSyllabus(ref.courseId, 'markdown', undefined, Number.MAX_SAFE_INTEGER);
+        const body = syllabus.available ? syllabus.content : '_This course has no syllabus._';
+        return text(`# ${syllabus.course_name} syllabus\n\n${body}\n`, 'text/markdown');
+      }
+
+      case 'page': {
+        const page = await client.getPage(ref.courseId, ref.id, 'markdown', undefined, Number.MAX_SAFE_INTEGER);
+        return text(`# ${page.title}\n\n${page.content}\n`, 'text/markdown');
+      }
+    }
+  } catch (err: any) {
+    if (err?.code === 'canvas_api_error' && [401, 403, 404].includes(err?.status)) {
+      throw makeError('resource_not_found', `Resource not found: ${uri}`);
+    }
+    throw err;
+  }
+}
+
+/**
+ * Subscriptions for one MCP session
+ * Polls subscribed URIs (bypassing the response cache) and calls notify when a resource's content changes
+ */
+export class ResourceSubscriptions {
+  private profiles: CanvasProfiles;
+  private intervalMs: number;
+  private notify: (uri: string) => Promise<void>;
+  // URI → hash of the last content read
+  private hashes = new Map<string, string>();
+  private timer: NodeJS.Timeout | null = null;
+  private polling = false;
+
+  constructor(profiles: CanvasProfiles, intervalMs: number, notify: (uri: string) => Promise<void>) {
+    this.profiles = profiles;
+    this.intervalMs = intervalMs;
+    this.notify = notify;
+  }
+
+  private async digest(uri: string, profiles: CanvasProfiles): Promise<string> {
+    const result = await readResource(uri, profiles);
+    return createHash('sha256').update(result.contents.map(c => c.text).join('\n')).digest('hex');
+  }
+
+  /**
+   * Start watching a URI; reads it once so unknown resources fail here rather than silently
+   */
+  async subscribe(uri: unknown): Promise<void> {
+    parseResourceUri(uri);
+    const key = uri as string;
+    if (!this.hashes.has(key)) {
+      this.hashes.set(key, await this.digest(key, this.profiles));
+    }
+    if (!this.timer) {
+      this.timer = setInterval(() => { void this.poll(); }, this.intervalMs);
+      this.timer.unref();
+    }
+  }
+
+  unsubscribe(uri: unknown): void {
+    parseResourceUri(uri);
+    this.hashes.delete(uri as string);
+    if (this.hashes.size === 0) {
+      this.close();
+    }
+  }
+
+  close(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private async poll(): Promise<void> {
+    if (this.polling) {
+      return;
+    }
+    this.polling = true;
+    try {
+      const fresh = this.profiles.withCacheBypass();
+      for (const [uri, previous] of this.hashes) {
+        try {
+          const hash = await this.digest(uri, fresh);
+          if (!this.hashes.has(uri) || hash === previous) {
+            continue;
+          }
+          this.hashes.set(uri, hash);
+          console.log(JSON.stringify({ level: 'info', event: 'resource_updated', uri }));
+          await this.notify(uri);
+        } catch (err: any) {
+          console.log(JSON.stringify({ level: 'warn', event: 'resource_poll_failed', uri, code: err?.code || 'internal_error' }));
+        }
+      }
+    } finally {
+      this.polling = false;
+    }
+  }
+}
+
+/**
+ * Dispatch a resources/* request
+ */
+export async function handleResourceRequest(
+  method: string,
+  params: Record<string, unknown> | undefined,
+  canvasProfiles: CanvasProfiles,
+  subscriptions: ResourceSubscriptions
+) {
+  switch (method) {
+    case 'resources/list':
+      return listResources(canvasProfiles);
+
+    case 'resources/templates/list':
+      return { resourceTemplates: RESOURCE_TEMPLATES };
+
+    case 'resources/read':
+      return readResource(params?.uri, canvasProfiles);
+
+    case 'resources/subscribe':
+      await subscriptions.subscribe(params?.uri);
+      return {};
+
+    case 'resources/unsubscribe':
+      subscriptions.unsubscribe(params?.uri);
+      return {};
+
+    default:
+      throw makeError('invalid_tool', `Unknown resource method: ${method}`);
+  }
+}
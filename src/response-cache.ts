@@ -0,0 +1,172 @@
+/**
+ * In-memory response cache for Canvas GET requests
+ *
+ * - Per-endpoint TTLs (see ttlFor): fresh entries are served without a request
+ * - Expired entries with an ETag are revalidated with If-None-Match; a 304 renews the entry
+ * - Identical requests already in flight share one fetch
+ * - LRU eviction once maxEntries is reached
+ */
+
+export interface CachedResponse {
+  data: unknown;
+  /** Next page URL from the Link header, if any */
+  next?: string;
+  etag?: string;
+}
+
+/**
+ * Loader result: either a fresh response or confirmation that the cached ETag is still current
+ */
+export type LoadResult = ({ notModified: false } & CachedResponse) | { notModified: true };
+
+interface CacheEntry extends CachedResponse {
+  expiresAt: number;
+}
+
+export interface CacheStats {
+  enabled: boolean;
+  entries: number;
+  max_entries: number;
+  hits: number;
+  misses: number;
+  revalidated: number;
+  deduplicated: number;
+  bypassed: number;
+  evictions: number;
+}
+
+// TTLs by endpoint path (matched against the path after /api/v1), first match wins
+const TTL_RULES: Array<[RegExp, number]> = [
+  [/^\/courses$/, 10 * 60 * 1000],                                // course list changes rarely
+  [/^\/courses\/[^/]+$/, 10 * 60 * 1000],                          // course details, syllabus
+  [/^\/courses\/[^/]+\/(pages|front_page)/, 10 * 60 * 1000],       // wiki pages
+  [/^\/courses\/[^/]+\/(modules|grading_standards)/, 5 * 60 * 1000],
+  [/^\/group_categories\//, 10 * 60 * 1000],
+  [/^\/users\/[^/]+\/(observees|courses)$/, 10 * 60 * 1000],  // linked students, a student's courses
+  [/^\/announcements/, 2 * 60 * 1000],
+  [/^\/conversations/, 30 * 1000],
+  [/submissions|enrollments|assignment_groups|assignments|planner|calendar_events|discussion_topics/, 60 * 1000],
+];
+
+const DEFAULT_TTL_MS = 60 * 1000;
+
+// GraphQL queries (keyed by endpoint + query hash) fetch assignments and submissions
+const GRAPHQL_TTL_MS = 60 * 1000;
+
+/**
+ * TTL for a Canvas API URL based on its endpoint
+ */
+export function ttlFor(url: string): number {
+  if (new URL(url).pathname === '/api/graphql') {
+    return GRAPHQL_TTL_MS;
+  }
+  const pathname = new URL(url).pathname.replace(/^\/api\/v1/, '');
+  for (const [pattern, ttl] of TTL_RULES) {
+    if (pattern.test(pathname)) {
+      return ttl;
+    }
+  }
+  return DEFAULT_TTL_MS;
+}
+
+export class ResponseCache {
+  private entries = new Map<string, CacheEntry>();
+  private inFlight = new Map<string, Promise<CachedResponse>>();
+  private maxEntries: number;
+  private counters = { hits: 0, misses: 0, revalidated: 0, deduplicated: 0, bypassed: 0, evictions: 0 };
+
+  constructor(maxEntries: number = 500) {
+    this.maxEntries = Math.max(1, Math.floor(maxEntries));
+  }
+
+  /**
+   * Return a cached response for key, or load it
+   * With bypass, the cache is not read but the fresh response is still stored
+   */
+  async fetch(key: string, bypass: boolean, load: (etag?: string) => Promise<LoadResult>): Promise<CachedResponse> {
+    const now = Date.now();
+    const entry = this.entries.get(key);
+
+    if (bypass) {
+      this.counters.bypassed++;
+    } else {
+      if (entry && entry.expiresAt > now) {
+        this.counters.hits++;
+        this.touch(key, entry);
+        return entry;
+      }
+
+      const pending = this.inFlight.get(key);
+      if (pending) {
+        this.counters.deduplicated++;
+        return pending;
+      }
+    }
+
+    const promise = (async () => {
+      const result = await load(bypass ? undefined : entry?.etag);
+
+      if (result.notModified) {
+        if (!entry) {
+          // Should not happen (no ETag was sent); treat as a protocol error
+          const e = new Error('Canvas returned 304 without a cached response');
+          (e as any).code = 'invalid_response';
+          throw e;
+        }
+        this.counters.revalidated++;
+        const renewed: CacheEntry = { ...entry, expiresAt: Date.now() + ttlFor(key) };
+        this.touch(key, renewed);
+        return renewed;
+      }
+
+      this.counters.misses++;
+      const fresh: CacheEntry = {
+        data: result.data,
+        next: result.next,
+        etag: result.etag,
+        expiresAt: Date.now() + ttlFor(key),
+      };
+      this.touch(key, fresh);
+      return fresh;
+    })();
+
+    if (!bypass) {
+      this.inFlight.set(key, promise);
+    }
+    try {
+      return await promise;
+    } finally {
+      if (this.inFlight.get(key) === promise) {
+        this.inFlight.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Insert or refresh an entry as most recently used, evicting the oldest if full
+   */
+  private touch(key: string, entry: CacheEntry): void {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+      this.counters.evictions++;
+    }
+  }
+
+  clear(): number {
+    const cleared = this.entries.size;
+    this.entries.clear();
+    return cleared;
+  }
+
+  stats(): CacheStats {
+    return {
+      enabled: true,
+      entries: this.entries.size,
+      max_entries: this.maxEntries,
+      ...this.counters,
+    };
+  }
+}
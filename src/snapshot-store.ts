@@ -0,0 +1,321 @@
+/**
+ * Persistent snapshot store for change detection ("what changed since yesterday?")
+ *
+ * File-backed JSON under a data directory. Every fetch of assignments, submissions and
+ * course grades is compared with the last recorded state; differences are appended to an
+ * event log with the time they were detected. The first observation of a course is a
+ * baseline and produces no events, so the initial load doesn't report everything as new.
+ * Observed students get separate files (see forUser).
+ */
+
+import fs from 'fs';
+import { promises as fsp } from 'fs';
+import path from 'path';
+
+export type ChangeType =
+  | 'new_assignment'
+  | 'new_grade'
+  | 'score_change'
+  | 'due_date_change'
+  | 'newly_missing'
+  | 'course_grade_change';
+
+export interface ChangeEvent {
+  type: ChangeType;
+  detected_at: string;
+  course_id: number;
+  course_name: string | null;
+  assignment_id: number | null;
+  name: string | null;
+  before: string | number | null;
+  after: string | number | null;
+}
+
+interface AssignmentRecord {
+  name: string;
+  due_at: string | null;
+  points_possible: number;
+  score: number | null;
+  missing: boolean;
+  submitted_at: string | null;
+}
+
+interface CourseRecord {
+  /** Set once a full assignment list has been recorded (the assignment baseline) */
+  assignments_seen: boolean;
+  /** Set once a course grade has been recorded (the grade baseline) */
+  grade_seen: boolean;
+  current_score: number | null;
+  current_grade: string | null;
+  assignments: Record<string, AssignmentRecord>;
+}
+
+interface SnapshotFile {
+  version: 1;
+  last_checked_at: string | null;
+  course_names: Record<string, string>;
+  courses: Record<string, CourseRecord>;
+  events: ChangeEvent[];
+}
+
+export interface AssignmentObservation {
+  id: number;
+  name: string;
+  due_at?: string | null;
+  points_possible?: number;
+  score?: number | null;
+  missing?: boolean;
+  submitted_at?: string | null;
+}
+
+// Keep the event log bounded; oldest events are discarded first
+const MAX_EVENTS = 2000;
+
+const FILE_NAME = 'canvas-snapshots.json';
+
+export class SnapshotStore {
+  private filePath: string;
+  private data: SnapshotFile;
+  private writing: Promise<void> = Promise.resolve();
+  private userStores = new Map<number, SnapshotStore>();
+
+  constructor(dataDir: string, fileName: string = FILE_NAME) {
+    this.filePath = path.join(dataDir, fileName);
+    this.data = this.load();
+  }
+
+  /**
+   * Store for an observed student, kept in its own file next to this one
+   * (an observer and their students share course IDs, so their snapshots must not mix)
+   */
+  forUser(userId: number): SnapshotStore {
+    let store = this.userStores.get(userId);
+    if (!store) {
+      store = new SnapshotStore(path.dirname(this.filePath), `${path.basename(this.filePath, '.json')}-user-${userId}.json`);
+      this.userStores.set(userId, store);
+    }
+    return store;
+  }
+
+  private load(): SnapshotFile {
+    try {
+      const parsed = JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+      if (parsed && parsed.version === 1 && parsed.courses && parsed.course_names && Array.isArray(parsed.events)) {
+        return parsed as SnapshotFile;
+      }
+      console.log(JSON.stringify({ level: 'warn', event: 'snapshot_load', message: 'Unrecognized snapshot file, starting fresh' }));
+    } catch (err: any) {
+      if (err?.code !== 'ENOENT') {
+        console.log(JSON.stringify({ level: 'warn', event: 'snapshot_load', message: 'Unreadable snapshot file, starting fresh' }));
+      }
+    }
+    return { version: 1, last_checked_at: null, course_names: {}, courses: {}, events: [] };
+  }
+
+  /**
+   * Persist asynchronously (write to temp file, then rename); writes are serialized
+   * Storage failures are logged and never fail the Canvas request that triggered them
+   */
+  private persist(): void {
+    const snapshot = JSON.stringify(this.data);
+    this.writing = this.writing
+      .then(async () => {
+        await fsp.mkdir(path.dirname(this.filePath), { recursive: true });
+        const tmp = `${this.filePath}.tmp`;
+        await fsp.writeFile(tmp, snapshot, 'utf8');
+        await fsp.rename(tmp, this.filePath);
+      })
+      .catch((err: any) => {
+        console.log(JSON.stringify({ level: 'error', event: 'snapshot_write', code: err?.code || 'write_failed' }));
+      });
+  }
+
+  /**
+   * Wait for pending writes (used before exit and in tests)
+   */
+  async flush(): Promise<void> {
+    await this.writing;
+    await Promise.all([...this.userStores.values()].map(store => store.flush()));
+  }
+
+  private course(courseId: number): CourseRecord {
+    const key = String(courseId);
+    if (!this.data.courses[key]) {
+      this.data.courses[key] = {
+        assignments_seen: false,
+        grade_seen: false,
+        current_score: null,
+        current_grade: null,
+        assignments: {},
+      };
+    }
+    return this.data.courses[key];
+  }
+
+  private emit(events: ChangeEvent[]): void {
+    if (events.length === 0) {
+      return;
+    }
+    this.data.events.push(...events);
+    if (this.data.events.length > MAX_EVENTS) {
+      this.data.events.splice(0, this.data.events.length - MAX_EVENTS);
+    }
+  }
+
+  private courseName(courseId: number): string | null {
+    return this.data.course_names[String(courseId)] ?? null;
+  }
+
+  /**
+   * Remember course names so events can be labeled
+   * Kept apart from course records: seeing a course name is not a baseline for its assignments
+   */
+  recordCourses(courses: Array<{ id: number; name: string }>): void {
+    let changed = false;
+    for (const c of courses) {
+      const key = String(c.id);
+      if (this.data.course_names[key] !== c.name) {
+        this.data.course_names[key] = c.name;
+        changed = true;
+      }
+    }
+    if (changed) {
+      this.persist();
+    }
+  }
+
+  /**
+   * Record a course's assignment list (with the user's submission state)
+   * Only fields present on an observation are compared; absent fields keep their stored value
+   */
+  recordAssignments(courseId: number, assignments: AssignmentObservation[]): void {
+    this.observe(courseId, assignments, true);
+  }
+
+  /**
+   * Record a single submission observation
+   * Only updates assignments already in the baseline: one assignment is not a full list,
+   * so it must not establish the course baseline
+   */
+  recordSubmission(courseId: number, observation: AssignmentObservation): void {
+    const record = this.data.courses[String(courseId)];
+    if (!record || !record.assignments_seen || !record.assignments[String(observation.id)]) {
+      return;
+    }
+    this.observe(courseId, [observation], false);
+  }
+
+  private observe(courseId: number, assignments: AssignmentObservation[], fullList: boolean): void {
+    const now = new Date().toISOString();
+    const record = this.course(courseId);
+    const isNew = !record.assignments_seen;
+    const events: ChangeEvent[] = [];
+
+    const event = (type: ChangeType, a: { id: number; name: string }, before: string | number | null, after: string | number | null) => {
+      events.push({
+        type,
+        detected_at: now,
+        course_id: courseId,
+        course_name: this.courseName(courseId),
+        assignment_id: a.id,
+        name: a.name,
+        before,
+        after,
+      });
+    };
+
+    for (const a of assignments) {
+      const key = String(a.id);
+      const prev = record.assignments[key];
+      const next: AssignmentRecord = {
+        name: a.name,
+        due_at: a.due_at !== undefined ? a.due_at : prev?.due_at ?? null,
+        points_possible: a.points_possible !== undefined ? a.points_possible : prev?.points_possible ?? 0,
+        score: a.score !== undefined ? a.score : prev?.score ?? null,
+        missing: a.missing !== undefined ? a.missing : prev?.missing ?? false,
+        submitted_at: a.submitted_at !== undefined ? a.submitted_at : prev?.submitted_at ?? null,
+      };
+
+      if (!prev) {
+        if (!isNew) {
+          event('new_assignment', a, null, next.due_at);
+          if (next.score !== null) {
+            event('new_grade', a, null, next.score);
+          }
+        }
+      } else {
+        if (prev.score === null && next.score !== null) {
+          event('new_grade', a, null, next.score);
+        } else if (prev.score !== null && next.score !== null && prev.score !== next.score) {
+          event('score_change', a, prev.score, next.score);
+        }
+        if (prev.due_at !== next.due_at) {
+          event('due_date_change', a, prev.due_at, next.due_at);
+        }
+        if (!prev.missing && next.missing) {
+          event('newly_missing', a, null, next.due_at);
+        }
+      }
+
+      record.assignments[key] = next;
+    }
+
+    if (fullList) {
+      record.assignments_seen = true;
+    }
+
+    this.emit(events);
+    this.persist();
+  }
+
+  /**
+   * Record a course grade summary
+   */
+  recordCourseGrade(courseId: number, currentScore: number | null, currentGrade: string | null): void {
+    const record = this.course(courseId);
+
+    if (record.grade_seen && (record.current_score !== currentScore || record.current_grade !== currentGrade) && currentScore !== null) {
+      this.emit([{
+        type: 'course_grade_change',
+        detected_at: new Date().toISOString(),
+        course_id: courseId,
+        course_name: this.courseName(courseId),
+        assignment_id: null,
+        name: null,
+        before: record.current_score,
+        after: currentScore,
+      }]);
+    }
+
+    record.grade_seen = true;
+    record.current_score = currentScore;
+    record.current_grade = currentGrade;
+    this.persist();
+  }
+
+  getLastCheckedAt(): string | null {
+    return this.data.last_checked_at;
+  }
+
+  markChecked(at: string): void {
+    this.data.last_checked_at = at;
+    this.persist();
+  }
+
+  /**
+   * Events detected after `since`, optionally limited to some courses
+   */
+  eventsSince(since: string | null, courseIds?: number[]): ChangeEvent[] {
+    const sinceTime = since ? new Date(since).getTime() : -Infinity;
+    return this.data.events.filter(e =>
+      new Date(e.detected_at).getTime() > sinceTime &&
+      (!courseIds || courseIds.includes(e.course_id)));
+  }
+
+  /**
+   * Whether any course has been observed yet
+   */
+  hasBaseline(): boolean {
+    return Object.keys(this.data.courses).length > 0;
+  }
+}
@@ -3,6 +3,9 @@
  */
 
 import { CanvasClient } from './canvas-client.js';
+import { CanvasProfiles } from './profiles.js';
+import { JsonSchema, validateSchema } from './validation.js';
+import { OUTPUT_SCHEMAS, ToolName, ToolOutput } from './output-schemas.js';
 
 function makeError(code: string, message: string): Error {
   const err = new Error(message);
@@ -10,15 +13,92 @@ function makeError(code: string, message: string): Error {
   return err;
 }
 
+// Content window bounds for page/syllabus bodies
+const DEFAULT_MAX_CHARS = 12000;
+const MAX_MAX_CHARS = 50000;
+
+// max_chars is schema-checked (>= 500); larger values are clamped rather than rejected
+function parseMaxChars(value: unknown): number {
+  return value === undefined ? DEFAULT_MAX_CHARS : Math.min(Math.floor(value as number), MAX_MAX_CHARS);
+}
+
+/**
+ * A tool's result: structuredContent matching its output schema, plus the same data as
+ * compact JSON text for clients that only read content
+ */
+function toolResult<N extends ToolName>(tool: N, data: ToolOutput<N>) {
+  return {
+    content: [{ type: 'text', text: JSON.stringify(data) }],
+    structuredContent: data as Record<string, unknown>,
+  };
+}
+
+/**
+ * Check tool arguments against the tool's inputSchema
+ * Throws invalid_arguments listing every problem by field
+ */
+function validateArguments(toolName: string, schema: JsonSchema, args: Record<string, unknown>): void {
+  const errors = validateSchema(schema, args);
+  if (errors.length > 0) {
+    throw makeError('invalid_arguments', `Invalid arguments for ${toolName}: ${errors.map(e => `${e.field} ${e.message}`).join('; ')}`);
+  }
+}
+
+// Accepted by every Canvas-backed tool
+const BYPASS_CACHE_PROPERTY = {
+  type: 'boolean',
+  description: 'Skip cached Canvas responses and fetch fresh data (default: false). Use when the user says data just changed.',
+  default: false,
+} as const;
+
+// Accepted by every Canvas-backed tool
+const PROFILE_PROPERTY = {
+  type: 'string',
+  description: 'Canvas profile (instance) to query, when several are configured. Cross-course tools (list_courses, list_upcoming, get_agenda, what_changed) merge all profiles when omitted; other tools use the first profile.',
+} as const;
+
+// Canvas object IDs: a positive integer, as a number or a numeric string
+const CANVAS_ID = {
+  type: ['string', 'integer'],
+  pattern: '^[1-9][0-9]*$',
+  minimum: 1,
+} as const;
+
+// Accepted by every tool that reads per-user data (all but the inbox tools, which are account-level)
+const STUDENT_ID_PROPERTY = {
+  ...CANVAS_ID,
+  description: 'Observer (parent) accounts: query for this observed student (ID from list_students). Omit for your own data.',
+} as const;
+
 export const TOOLS = [
   {
     name: 'list_courses',
     description: 'List all active Canvas courses for the authenticated user. Returns course ID, name, course code, and enrollment state.',
     inputSchema: {
       type: 'object',
-      properties: {},
+      properties: {
+        student_id: STUDENT_ID_PROPERTY,
+        profile: PROFILE_PROPERTY,
+        bypass_cache: BYPASS_CACHE_PROPERTY,
+      },
+      required: [],
+      additionalProperties: false,
+    },
+    outputSchema: OUTPUT_SCHEMAS.list_courses,
+  },
+  {
+    name: 'list_students',
+    description: 'List the students linked to this account as an observer (parent). Returns student ID, name and short name; empty for student accounts. Pass a student ID as student_id to other tools to query that student.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        profile: PROFILE_PROPERTY,
+        bypass_cache: BYPASS_CACHE_PROPERTY,
+      },
       required: [],
+      additionalProperties: false,
     },
+    outputSchema: OUTPUT_SCHEMAS.list_students,
   },
   {
     name: 'list_assignments',
@@ -27,7 +107,7 @@ export const TOOLS = [
       type: 'object',
       properties: {
         course_id: {
-          type: ['string', 'number'],
+          ...CANVAS_ID,
           description: 'The Canvas course ID',
         },
         include_future: {
@@ -41,9 +121,14 @@ export const TOOLS = [
           description: 'Filter by submission status. "missing": submission.missing===true OR (due_at passed AND no submitted_at). "unsubmitted": no submission OR no submitted_at (regardless of due date). "submitted": submitted_at exists OR workflow_state is submitted/graded. "all": no filtering (default).',
           default: 'all',
         },
+        student_id: STUDENT_ID_PROPERTY,
+        profile: PROFILE_PROPERTY,
+        bypass_cache: BYPASS_CACHE_PROPERTY,
       },
       required: ['course_id'],
+      additionalProperties: false,
     },
+    outputSchema: OUTPUT_SCHEMAS.list_assignments,
   },
   {
     name: 'get_submission_status',
@@ -52,16 +137,73 @@ export const TOOLS = [
       type: 'object',
       properties: {
         course_id: {
-          type: ['string', 'number'],
+          ...CANVAS_ID,
           description: 'The Canvas course ID',
         },
         assignment_id: {
-          type: ['string', 'number'],
+          ...CANVAS_ID,
           description: 'The Canvas assignment ID',
         },
+        student_id: STUDENT_ID_PROPERTY,
+        profile: PROFILE_PROPERTY,
+        bypass_cache: BYPASS_CACHE_PROPERTY,
       },
       required: ['course_id', 'assignment_id'],
+      additionalProperties: false,
     },
+    outputSchema: OUTPUT_SCHEMAS.get_submission_status,
+  },
+  {
+    name: 'get_submission_feedback',
+    description: 'Get grading feedback for a specific assignment submission: instructor/peer comments (author, timestamp, text, attachment names), rubric assessment mapped to criterion names with points, rating and comments, and the attempt history with per-attempt scores. Single API request. Use with get_submission_status to explain why a grade was given.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        course_id: {
+          ...CANVAS_ID,
+          description: 'The Canvas course ID',
+        },
+        assignment_id: {
+          ...CANVAS_ID,
+          description: 'The Canvas assignment ID',
+        },
+        student_id: STUDENT_ID_PROPERTY,
+        profile: PROFILE_PROPERTY,
+        bypass_cache: BYPASS_CACHE_PROPERTY,
+      },
+      required: ['course_id', 'assignment_id'],
+      additionalProperties: false,
+    },
+    outputSchema: OUTPUT_SCHEMAS.get_submission_feedback,
+  },
+  {
+    name: 'get_assignment',
+    description: 'Get full details for a single assignment: description as markdown, rubric criteria and ratings, allowed attempts (null = unlimited), allowed file extensions, lock explanation, group category (group assignments), and assignment group membership with weight. Use this to explain what an assignment actually asks for.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        course_id: {
+          ...CANVAS_ID,
+          description: 'The Canvas course ID',
+        },
+        assignment_id: {
+          ...CANVAS_ID,
+          description: 'The Canvas assignment ID',
+        },
+        format: {
+          type: 'string',
+          enum: ['markdown', 'text'],
+          description: 'Description format (default: "markdown")',
+          default: 'markdown',
+        },
+        student_id: STUDENT_ID_PROPERTY,
+        profile: PROFILE_PROPERTY,
+        bypass_cache: BYPASS_CACHE_PROPERTY,
+      },
+      required: ['course_id', 'assignment_id'],
+      additionalProperties: false,
+    },
+    outputSchema: OUTPUT_SCHEMAS.get_assignment,
   },
   {
     name: 'get_course_grades',
@@ -70,21 +212,114 @@ export const TOOLS = [
       type: 'object',
       properties: {
         course_id: {
-          type: ['string', 'number'],
+          ...CANVAS_ID,
           description: 'The Canvas course ID',
         },
+        student_id: STUDENT_ID_PROPERTY,
+        profile: PROFILE_PROPERTY,
+        bypass_cache: BYPASS_CACHE_PROPERTY,
       },
       required: ['course_id'],
+      additionalProperties: false,
     },
+    outputSchema: OUTPUT_SCHEMAS.get_course_grades,
+  },
+  {
+    name: 'get_grade_breakdown',
+    description: 'Break down a course grade by assignment group (category). Returns whether groups are weighted, each group\'s weight, drop rules (drop lowest/highest, never drop), earned and possible points, percentage, weighted contribution to the course score, percentage points lost, and per-assignment scores with dropped flags. Use to find which category is dragging the grade down. Recomputed from visible grades.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        course_id: {
+          ...CANVAS_ID,
+          description: 'The Canvas course ID',
+        },
+        student_id: STUDENT_ID_PROPERTY,
+        profile: PROFILE_PROPERTY,
+        bypass_cache: BYPASS_CACHE_PROPERTY,
+      },
+      required: ['course_id'],
+      additionalProperties: false,
+    },
+    outputSchema: OUTPUT_SCHEMAS.get_grade_breakdown,
+  },
+  {
+    name: 'calculate_what_if',
+    description: 'What-if grade calculator. Recomputes the course score and letter grade with hypothetical scores for ungraded or future assignments, using the course\'s assignment group weights, drop rules and grading standard. With solve_for, finds the minimum score needed on one assignment to reach a target letter grade (e.g. "B") or percentage. Use get_grade_breakdown to find assignment IDs.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        course_id: {
+          ...CANVAS_ID,
+          description: 'The Canvas course ID',
+        },
+        hypothetical_scores: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              assignment_id: {
+                ...CANVAS_ID,
+                description: 'The Canvas assignment ID',
+              },
+              score: {
+                type: 'number',
+                minimum: 0,
+                description: 'Hypothetical points earned',
+              },
+            },
+            required: ['assignment_id', 'score'],
+            additionalProperties: false,
+          },
+          description: 'Optional: hypothetical points for assignments (overrides any existing grade)',
+        },
+        solve_for: {
+          type: 'object',
+          properties: {
+            assignment_id: {
+              ...CANVAS_ID,
+              description: 'The assignment to solve for (e.g. the final exam)',
+            },
+            target_grade: {
+              type: 'string',
+              description: 'Target letter grade from the course grading standard (e.g. "B")',
+            },
+            target_score: {
+              type: 'number',
+              minimum: 0,
+              maximum: 100,
+              description: 'Target course percentage (0-100), used if target_grade is not given',
+            },
+            max_percent: {
+              type: 'number',
+              minimum: 0,
+              description: 'Highest score to consider, as a percentage of points possible (default: 100; raise to allow extra credit)',
+              default: 100,
+            },
+          },
+          required: ['assignment_id'],
+          additionalProperties: false,
+          description: 'Optional: solve for the minimum score on one assignment to reach a target grade',
+        },
+        student_id: STUDENT_ID_PROPERTY,
+        profile: PROFILE_PROPERTY,
+        bypass_cache: BYPASS_CACHE_PROPERTY,
+      },
+      required: ['course_id'],
+      additionalProperties: false,
+    },
+    outputSchema: OUTPUT_SCHEMAS.calculate_what_if,
   },
   {
     name: 'list_upcoming',
-    description: 'List upcoming/overdue assignments across active courses. Returns a consolidated list of assignments due within the next N days (default 14), optionally including overdue assignments. Reuses existing course and assignment queries. Sorted by due date (overdue first).',
+    description: 'List upcoming/overdue assignments across active courses. Returns a consolidated list of assignments due within the next N days (default 14), optionally including overdue assignments. Reuses existing course and assignment queries. Sorted by due date (overdue first). Courses that could not be checked are listed in partial_failures. For observer accounts without student_id, covers every observed student and tags each item with student_id and student_name.',
     inputSchema: {
       type: 'object',
       properties: {
         days: {
-          type: 'number',
+          type: 'integer',
+          minimum: 1,
+          maximum: 365,
           description: 'Number of days to look ahead for upcoming assignments (default: 14)',
           default: 14,
         },
@@ -95,31 +330,425 @@ export const TOOLS = [
         },
         course_ids: {
           type: 'array',
-          items: {
-            type: ['string', 'number'],
-          },
+          items: CANVAS_ID,
           description: 'Optional: filter to specific course IDs. If not provided, checks all active courses.',
         },
+        student_id: STUDENT_ID_PROPERTY,
+        profile: PROFILE_PROPERTY,
+        bypass_cache: BYPASS_CACHE_PROPERTY,
+      },
+      required: [],
+      additionalProperties: false,
+    },
+    outputSchema: OUTPUT_SCHEMAS.list_upcoming,
+  },
+  {
+    name: 'what_changed',
+    description: 'Report what changed in Canvas since a timestamp or since the last what_changed call: new grades, score changes, new assignments, due-date changes, newly missing items, and course grade changes. Refreshes all active courses (or course_ids) first. Changes are detected against locally stored snapshots, so the very first call only records a baseline. Courses that could not be refreshed are listed in partial_failures.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        since: {
+          type: 'string',
+          description: 'Optional: report changes detected after this time (ISO 8601). Default: since the last what_changed call made without since or course_ids.',
+        },
+        course_ids: {
+          type: 'array',
+          items: CANVAS_ID,
+          description: 'Optional: filter to specific course IDs. If not provided, checks all active courses.',
+        },
+        student_id: STUDENT_ID_PROPERTY,
+        profile: PROFILE_PROPERTY,
+        bypass_cache: BYPASS_CACHE_PROPERTY,
+      },
+      required: [],
+      additionalProperties: false,
+    },
+    outputSchema: OUTPUT_SCHEMAS.what_changed,
+  },
+  {
+    name: 'get_agenda',
+    description: 'Unified chronological agenda from the Canvas Planner and calendar. Includes assignments, quizzes, discussions with due dates, pages with to-do dates, planner notes, peer reviews, announcements and calendar events, each with a type field, course name, completion and dismissed state. Broader than list_upcoming, which only covers assignments. Courses whose calendar events could not be loaded are listed in partial_failures.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        days: {
+          type: 'integer',
+          minimum: 0,
+          maximum: 365,
+          description: 'Number of days to look ahead (default: 7)',
+          default: 7,
+        },
+        past_days: {
+          type: 'integer',
+          minimum: 0,
+          maximum: 365,
+          description: 'Number of days to look back, e.g. to catch overdue items (default: 0)',
+          default: 0,
+        },
+        include_completed: {
+          type: 'boolean',
+          description: 'Include items already completed (submitted or marked done) (default: true)',
+          default: true,
+        },
+        course_ids: {
+          type: 'array',
+          items: CANVAS_ID,
+          description: 'Optional: filter to specific course IDs (personal planner notes and events are then left out). If not provided, covers all active courses plus personal items.',
+        },
+        student_id: STUDENT_ID_PROPERTY,
+        profile: PROFILE_PROPERTY,
+        bypass_cache: BYPASS_CACHE_PROPERTY,
+      },
+      required: [],
+      additionalProperties: false,
+    },
+    outputSchema: OUTPUT_SCHEMAS.get_agenda,
+  },
+  {
+    name: 'list_announcements',
+    description: 'List course announcements across active courses, newest first. Returns title, course, author, posted date, read state, link, and the message body converted from HTML to plain text or markdown. Supports a since/until date window (Canvas defaults to the last 14 days) and a read/unread filter.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        course_ids: {
+          type: 'array',
+          items: CANVAS_ID,
+          description: 'Optional: filter to specific course IDs. If not provided, checks all active courses.',
+        },
+        since: {
+          type: 'string',
+          description: 'Optional: only announcements posted on or after this date (ISO 8601 or YYYY-MM-DD). Default: 14 days ago.',
+        },
+        until: {
+          type: 'string',
+          description: 'Optional: only announcements posted on or before this date (ISO 8601 or YYYY-MM-DD). Default: now.',
+        },
+        read_state: {
+          type: 'string',
+          enum: ['all', 'read', 'unread'],
+          description: 'Filter by read state for the current user (default: "all")',
+          default: 'all',
+        },
+        format: {
+          type: 'string',
+          enum: ['text', 'markdown'],
+          description: 'Message body format: "text" (plain text, default) or "markdown" (keeps headings, lists, tables, links)',
+          default: 'text',
+        },
+        student_id: STUDENT_ID_PROPERTY,
+        profile: PROFILE_PROPERTY,
+        bypass_cache: BYPASS_CACHE_PROPERTY,
+      },
+      required: [],
+      additionalProperties: false,
+    },
+    outputSchema: OUTPUT_SCHEMAS.list_announcements,
+  },
+  {
+    name: 'list_modules',
+    description: 'List modules for a Canvas course in order. Returns each module\'s lock/progress state (locked, unlocked, started, completed), unlock date, prerequisite modules, sequential-progress flag, and items (pages, files, assignments, quizzes, discussions, external tools) with each item\'s completion requirement and whether the current user has met it.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        course_id: {
+          ...CANVAS_ID,
+          description: 'The Canvas course ID',
+        },
+        include_items: {
+          type: 'boolean',
+          description: 'Include module items with completion requirements (default: true). Set false for a compact module overview.',
+          default: true,
+        },
+        student_id: STUDENT_ID_PROPERTY,
+        profile: PROFILE_PROPERTY,
+        bypass_cache: BYPASS_CACHE_PROPERTY,
+      },
+      required: ['course_id'],
+      additionalProperties: false,
+    },
+    outputSchema: OUTPUT_SCHEMAS.list_modules,
+  },
+  {
+    name: 'list_pages',
+    description: 'List wiki pages for a Canvas course (metadata only), most recently updated first. Returns page ID, url slug, title, update time, published/front-page flags. Use get_page to read a page body.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        course_id: {
+          ...CANVAS_ID,
+          description: 'The Canvas course ID',
+        },
+        search_term: {
+          type: 'string',
+          description: 'Optional: only pages whose title contains this text',
+        },
+        student_id: STUDENT_ID_PROPERTY,
+        profile: PROFILE_PROPERTY,
+        bypass_cache: BYPASS_CACHE_PROPERTY,
+      },
+      required: ['course_id'],
+      additionalProperties: false,
+    },
+    outputSchema: OUTPUT_SCHEMAS.list_pages,
+  },
+  {
+    name: 'get_page',
+    description: 'Read a Canvas wiki page as compact markdown (headings, lists, tables and links kept; scripts and styling dropped). Omit page_url for the course front page. Long pages are truncated: when truncated is true, call again with cursor=next_cursor to continue.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        course_id: {
+          ...CANVAS_ID,
+          description: 'The Canvas course ID',
+        },
+        page_url: {
+          type: ['string', 'number'],
+          description: 'Optional: page url slug (from list_pages) or page ID. Default: the course front page.',
+        },
+        format: {
+          type: 'string',
+          enum: ['markdown', 'text'],
+          description: 'Body format (default: "markdown")',
+          default: 'markdown',
+        },
+        cursor: {
+          type: 'string',
+          description: 'Optional: next_cursor from a previous truncated response',
+        },
+        max_chars: {
+          type: 'number',
+          minimum: 500,
+          description: `Maximum characters of content per response (default: ${DEFAULT_MAX_CHARS}, max: ${MAX_MAX_CHARS})`,
+          default: DEFAULT_MAX_CHARS,
+        },
+        student_id: STUDENT_ID_PROPERTY,
+        profile: PROFILE_PROPERTY,
+        bypass_cache: BYPASS_CACHE_PROPERTY,
+      },
+      required: ['course_id'],
+      additionalProperties: false,
+    },
+    outputSchema: OUTPUT_SCHEMAS.get_page,
+  },
+  {
+    name: 'get_syllabus',
+    description: 'Read the course syllabus as compact markdown. Returns available:false when the course has no syllabus content. Long syllabi are truncated: when truncated is true, call again with cursor=next_cursor to continue.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        course_id: {
+          ...CANVAS_ID,
+          description: 'The Canvas course ID',
+        },
+        format: {
+          type: 'string',
+          enum: ['markdown', 'text'],
+          description: 'Body format (default: "markdown")',
+          default: 'markdown',
+        },
+        cursor: {
+          type: 'string',
+          description: 'Optional: next_cursor from a previous truncated response',
+        },
+        max_chars: {
+          type: 'number',
+          minimum: 500,
+          description: `Maximum characters of content per response (default: ${DEFAULT_MAX_CHARS}, max: ${MAX_MAX_CHARS})`,
+          default: DEFAULT_MAX_CHARS,
+        },
+        student_id: STUDENT_ID_PROPERTY,
+        profile: PROFILE_PROPERTY,
+        bypass_cache: BYPASS_CACHE_PROPERTY,
+      },
+      required: ['course_id'],
+      additionalProperties: false,
+    },
+    outputSchema: OUTPUT_SCHEMAS.get_syllabus,
+  },
+  {
+    name: 'list_discussions',
+    description: 'List discussion topics for a Canvas course (announcements excluded). Returns title, author, due date and points (graded discussions), whether the user has posted (for "post before you see replies" topics), entry and unread counts, and read state.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        course_id: {
+          ...CANVAS_ID,
+          description: 'The Canvas course ID',
+        },
+        unread_only: {
+          type: 'boolean',
+          description: 'Only topics with unread entries (default: false)',
+          default: false,
+        },
+        search_term: {
+          type: 'string',
+          description: 'Optional: only topics whose title contains this text',
+        },
+        student_id: STUDENT_ID_PROPERTY,
+        profile: PROFILE_PROPERTY,
+        bypass_cache: BYPASS_CACHE_PROPERTY,
+      },
+      required: ['course_id'],
+      additionalProperties: false,
+    },
+    outputSchema: OUTPUT_SCHEMAS.list_discussions,
+  },
+  {
+    name: 'get_discussion',
+    description: 'Read a discussion topic and its full threaded replies. Returns the topic message as markdown and the entry tree as nested text in content ("- Author (timestamp) [unread]: message", indented per reply level). entries_hidden is true when the topic requires posting before seeing replies and the user has not posted. Long threads are truncated: when truncated is true, call again with cursor=next_cursor.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        course_id: {
+          ...CANVAS_ID,
+          description: 'The Canvas course ID',
+        },
+        topic_id: {
+          ...CANVAS_ID,
+          description: 'The discussion topic ID (from list_discussions)',
+        },
+        format: {
+          type: 'string',
+          enum: ['markdown', 'text'],
+          description: 'Topic message format (default: "markdown"); replies are always plain text',
+          default: 'markdown',
+        },
+        cursor: {
+          type: 'string',
+          description: 'Optional: next_cursor from a previous truncated response',
+        },
+        max_chars: {
+          type: 'number',
+          minimum: 500,
+          description: `Maximum characters of thread content per response (default: ${DEFAULT_MAX_CHARS}, max: ${MAX_MAX_CHARS})`,
+          default: DEFAULT_MAX_CHARS,
+        },
+        student_id: STUDENT_ID_PROPERTY,
+        profile: PROFILE_PROPERTY,
+        bypass_cache: BYPASS_CACHE_PROPERTY,
+      },
+      required: ['course_id', 'topic_id'],
+      additionalProperties: false,
+    },
+    outputSchema: OUTPUT_SCHEMAS.get_discussion,
+  },
+  {
+    name: 'list_conversations',
+    description: 'List Canvas Inbox conversations (instructor and classmate messages). Returns subject, course context, participants, message count, last message preview and time, read state and starred flag. Read-only: listing never marks messages as read. Use get_conversation for full message bodies.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        scope: {
+          type: 'string',
+          enum: ['inbox', 'unread', 'starred', 'sent', 'archived'],
+          description: 'Mailbox to list (default: "inbox")',
+          default: 'inbox',
+        },
+        course_ids: {
+          type: 'array',
+          items: CANVAS_ID,
+          description: 'Optional: only conversations in any of these courses',
+        },
+        since: {
+          type: 'string',
+          description: 'Optional: only conversations with a message on or after this date (ISO 8601)',
+        },
+        until: {
+          type: 'string',
+          description: 'Optional: only conversations whose last message is on or before this date (ISO 8601)',
+        },
+        profile: PROFILE_PROPERTY,
+        bypass_cache: BYPASS_CACHE_PROPERTY,
+      },
+      required: [],
+      additionalProperties: false,
+    },
+    outputSchema: OUTPUT_SCHEMAS.list_conversations,
+  },
+  {
+    name: 'get_conversation',
+    description: 'Read a Canvas Inbox conversation with all messages (author, timestamp, body, attachment names), oldest first. Does NOT mark the conversation as read unless mark_as_read is true.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        conversation_id: {
+          ...CANVAS_ID,
+          description: 'The conversation ID (from list_conversations)',
+        },
+        mark_as_read: {
+          type: 'boolean',
+          description: 'Mark the conversation as read in Canvas (default: false). Only set when the user explicitly asks.',
+          default: false,
+        },
+        profile: PROFILE_PROPERTY,
+        bypass_cache: BYPASS_CACHE_PROPERTY,
+      },
+      required: ['conversation_id'],
+      additionalProperties: false,
+    },
+    outputSchema: OUTPUT_SCHEMAS.get_conversation,
+  },
+  {
+    name: 'cache_stats',
+    description: 'Show response cache statistics (entries, hits, misses, ETag revalidations, deduplicated in-flight requests, evictions). Set clear=true to drop all cached Canvas responses.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        clear: {
+          type: 'boolean',
+          description: 'Clear the cache after reading stats (default: false)',
+          default: false,
+        },
+        profile: {
+          type: 'string',
+          description: 'Only this Canvas profile (default: every profile)',
+        },
       },
       required: [],
+      additionalProperties: false,
     },
+    outputSchema: OUTPUT_SCHEMAS.cache_stats,
   },
 ] as const;
 
 export async function handleToolCall(
   toolName: string,
   args: Record<string, unknown>,
-  canvasClient: CanvasClient
-): Promise<{ content: Array<{ type: string; text: string }> }> {
+  canvasProfiles: CanvasProfiles
+): Promise<{ content: Array<{ type: string; text: string }>; structuredContent: Record<string, unknown> }> {
+  const tool = TOOLS.find(t => t.name === toolName);
+  if (!tool) {
+    throw makeError('invalid_tool', `Unknown tool: ${toolName}`);
+  }
+  validateArguments(toolName, tool.inputSchema, args);
+
+  const profileName = args.profile as string | undefined;
+
+  // bypass_cache applies to every Canvas request made for this call
+  const profiles = args.bypass_cache === true ? canvasProfiles.withCacheBypass() : canvasProfiles;
+  let client = profiles.get(profileName).client;
+
+  // Cross-course tools merge every profile when none is named (student IDs are per instance,
+  // so a student_id always targets a single profile)
+  const merge = profiles.multiple && profileName === undefined && args.student_id === undefined;
+
+  // student_id routes per-user queries (submissions, grades, planner, ...) to an observed student
+  if (args.student_id !== undefined && toolName !== 'list_students') {
+    client = await client.forStudent(args.student_id as string | number);
+  }
+
   switch (toolName) {
     case 'list_courses': {
-      const courses = await canvasClient.listCourses();
-      return {
-        content: [{
-          type: 'text',
-          text: JSON.stringify(courses, null, 2),
-        }],
-      };
+      const courses = merge
+        ? await profiles.listCourses()
+        : { courses: await client.listCourses(), partial_failures: [] };
+      return toolResult('list_courses', courses);
+    }
+
+    case 'list_students': {
+      const students = await client.listObservees();
+      return toolResult('list_students', { students });
     }
 
     case 'list_assignments': {
@@ -127,53 +756,56 @@ export async function handleToolCall(
       const includeFuture = args.include_future !== undefined ? args.include_future as boolean : true;
       const statusFilter = (args.status_filter as 'all' | 'missing' | 'unsubmitted' | 'submitted') || 'all';
 
-      if (!courseId) {
-        throw makeError('invalid_arguments', 'course_id is required');
-      }
-
-      const assignments = await canvasClient.listAssignments(courseId, includeFuture, statusFilter);
-      return {
-        content: [{
-          type: 'text',
-          text: JSON.stringify(assignments, null, 2),
-        }],
-      };
+      const assignments = await client.listAssignments(courseId, includeFuture, statusFilter);
+      return toolResult('list_assignments', { assignments });
     }
 
     case 'get_submission_status': {
       const courseId = args.course_id as string | number;
       const assignmentId = args.assignment_id as string | number;
 
-      if (!courseId) {
-        throw makeError('invalid_arguments', 'course_id is required');
-      }
-      if (!assignmentId) {
-        throw makeError('invalid_arguments', 'assignment_id is required');
-      }
+      const submission = await client.getSubmissionStatus(courseId, assignmentId);
+      return toolResult('get_submission_status', submission);
+    }
 
-      const submission = await canvasClient.getSubmissionStatus(courseId, assignmentId);
-      return {
-        content: [{
-          type: 'text',
-          text: JSON.stringify(submission, null, 2),
-        }],
-      };
+    case 'get_submission_feedback': {
+      const courseId = args.course_id as string | number;
+      const assignmentId = args.assignment_id as string | number;
+
+      const feedback = await client.getSubmissionFeedback(courseId, assignmentId);
+      return toolResult('get_submission_feedback', feedback);
+    }
+
+    case 'get_assignment': {
+      const courseId = args.course_id as string | number;
+      const assignmentId = args.assignment_id as string | number;
+      const format = (args.format as 'text' | 'markdown') || 'markdown';
+
+      const assignment = await client.getAssignment(courseId, assignmentId, format);
+      return toolResult('get_assignment', assignment);
     }
 
     case 'get_course_grades': {
       const courseId = args.course_id as string | number;
 
-      if (!courseId) {
-        throw makeError('invalid_arguments', 'course_id is required');
-      }
+      const grades = await client.getCourseGrades(courseId);
+      return toolResult('get_course_grades', grades);
+    }
 
-      const grades = await canvasClient.getCourseGrades(courseId);
-      return {
-        content: [{
-          type: 'text',
-          text: JSON.stringify(grades, null, 2),
-        }],
-      };
+    case 'get_grade_breakdown': {
+      const courseId = args.course_id as string | number;
+
+      const breakdown = await client.getGradeBreakdown(courseId);
+      return toolResult('get_grade_breakdown', breakdown);
+    }
+
+    case 'calculate_what_if': {
+      const courseId = args.course_id as string | number;
+      const hypotheticalScores = (args.hypothetical_scores as Array<{ assignment_id: string | number; score: number }>) || [];
+      const solveFor = args.solve_for as { assignment_id: string | number; target_grade?: string; target_score?: number; max_percent?: number } | undefined;
+
+      const whatIf = await client.calculateWhatIf(courseId, hypotheticalScores, solveFor);
+      return toolResult('calculate_what_if', whatIf);
     }
 
     case 'list_upcoming': {
@@ -181,13 +813,149 @@ export async function handleToolCall(
       const includeOverdue = args.include_overdue !== undefined ? args.include_overdue as boolean : true;
       const courseIds = args.course_ids as (string | number)[] | undefined;
 
-      const upcoming = await canvasClient.listUpcoming(days, includeOverdue, courseIds);
-      return {
-        content: [{
-          type: 'text',
-          text: JSON.stringify(upcoming, null, 2),
-        }],
+      const upcoming = merge
+        ? await profiles.listUpcoming(days, includeOverdue, courseIds)
+        : await client.listUpcoming(days, includeOverdue, courseIds);
+      return toolResult('list_upcoming', upcoming);
+    }
+
+    case 'what_changed': {
+      const since = args.since as string | undefined;
+      const courseIds = args.course_ids as (string | number)[] | undefined;
+
+      if (since && isNaN(Date.parse(since))) {
+        throw makeError('invalid_arguments', 'since must be an ISO 8601 date');
+      }
+
+      const changes = merge
+        ? await profiles.whatChanged(since, courseIds)
+        : await client.whatChanged(since, courseIds);
+      return toolResult('what_changed', changes);
+    }
+
+    case 'get_agenda': {
+      const days = args.days !== undefined ? args.days as number : 7;
+      const pastDays = args.past_days !== undefined ? args.past_days as number : 0;
+      const includeCompleted = args.include_completed !== undefined ? args.include_completed as boolean : true;
+      const courseIds = args.course_ids as (string | number)[] | undefined;
+
+      const agenda = merge
+        ? await profiles.getAgenda(days, pastDays, includeCompleted, courseIds)
+        : await client.getAgenda(days, pastDays, includeCompleted, courseIds);
+      return toolResult('get_agenda', agenda);
+    }
+
+    case 'list_announcements': {
+      const courseIds = args.course_ids as (string | number)[] | undefined;
+      const since = args.since as string | undefined;
+      const until = args.until as string | undefined;
+      const readState = (args.read_state as 'all' | 'read' | 'unread') || 'all';
+      const format = (args.format as 'text' | 'markdown') || 'text';
+
+      if (since && isNaN(Date.parse(since))) {
+        throw makeError('invalid_arguments', 'since must be an ISO 8601 date');
+      }
+      if (until && isNaN(Date.parse(until))) {
+        throw makeError('invalid_arguments', 'until must be an ISO 8601 date');
+      }
+
+      const announcements = await client.listAnnouncements(courseIds, since, until, readState, format);
+      return toolResult('list_announcements', { announcements });
+    }
+
+    case 'list_modules': {
+      const courseId = args.course_id as string | number;
+      const includeItems = args.include_items !== undefined ? args.include_items as boolean : true;
+
+      const modules = await client.listModules(courseId, includeItems);
+      return toolResult('list_modules', { modules });
+    }
+
+    case 'list_pages': {
+      const courseId = args.course_id as string | number;
+      const searchTerm = args.search_term as string | undefined;
+
+      const pages = await client.listPages(courseId, searchTerm);
+      return toolResult('list_pages', { pages });
+    }
+
+    case 'get_page': {
+      const courseId = args.course_id as string | number;
+      const pageUrl = args.page_url as string | number | undefined;
+      const format = (args.format as 'text' | 'markdown') || 'markdown';
+      const cursor = args.cursor as string | undefined;
+      const maxChars = parseMaxChars(args.max_chars);
+
+      const page = await client.getPage(courseId, pageUrl, format, cursor, maxChars);
+      return toolResult('get_page', page);
+    }
+
+    case 'get_syllabus': {
+      const courseId = args.course_id as string | number;
+      const format = (args.format as 'text' | 'markdown') || 'markdown';
+      const cursor = args.cursor as string | undefined;
+      const maxChars = parseMaxChars(args.max_chars);
+
+      const syllabus = await client.getSyllabus(courseId, format, cursor, maxChars);
+      return toolResult('get_syllabus', syllabus);
+    }
+
+    case 'list_discussions': {
+      const courseId = args.course_id as string | number;
+      const unreadOnly = args.unread_only !== undefined ? args.unread_only as boolean : false;
+      const searchTerm = args.search_term as string | undefined;
+
+      const topics = await client.listDiscussions(courseId, unreadOnly, searchTerm);
+      return toolResult('list_discussions', { discussions: topics });
+    }
+
+    case 'get_discussion': {
+      const courseId = args.course_id as string | number;
+      const topicId = args.topic_id as string | number;
+      const format = (args.format as 'text' | 'markdown') || 'markdown';
+      const cursor = args.cursor as string | undefined;
+      const maxChars = parseMaxChars(args.max_chars);
+
+      const discussion = await client.getDiscussion(courseId, topicId, format, cursor, maxChars);
+      return toolResult('get_discussion', discussion);
+    }
+
+    case 'list_conversations': {
+      const scope = (args.scope as 'inbox' | 'unread' | 'starred' | 'sent' | 'archived') || 'inbox';
+      const courseIds = args.course_ids as (string | number)[] | undefined;
+      const since = args.since as string | undefined;
+      const until = args.until as string | undefined;
+
+      if (since && isNaN(Date.parse(since))) {
+        throw makeError('invalid_arguments', 'since must be an ISO 8601 date');
+      }
+      if (until && isNaN(Date.parse(until))) {
+        throw makeError('invalid_arguments', 'until must be an ISO 8601 date');
+      }
+
+      const conversations = await client.listConversations(scope, courseIds, since, until);
+      return toolResult('list_conversations', { conversations });
+    }
+
+    case 'get_conversation': {
+      const conversationId = args.conversation_id as string | number;
+      const markAsRead = args.mark_as_read === true;
+
+      const conversation = await client.getConversation(conversationId, markAsRead);
+      return toolResult('get_conversation', conversation);
+    }
+
+    case 'cache_stats': {
+      const statsFor = (target: CanvasClient) => {
+        const stats = target.cacheStats();
+        const cleared = args.clear === true ? target.clearCache() : 0;
+        return { ...stats, cleared };
       };
+      // One stats object per profile when several are configured and none is named
+      const result = merge
+        ? Object.fromEntries(canvasProfiles.all().map(p => [p.name, statsFor(p.client)]))
+        : statsFor(canvasProfiles.get(profileName).client);
+      return toolResult('cache_stats', result);
     }
 
     default:
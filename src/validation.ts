@@ -0,0 +1,132 @@
+/**
+ * Runtime validation of tool arguments against the JSON Schemas declared in TOOLS
+ *
+ * Supports the subset of JSON Schema the tool definitions use: type (one or a list), enum,
+ * minimum/maximum, pattern, items, properties, required and additionalProperties: false.
+ * Every problem is reported with its field path (e.g. "hypothetical_scores[0].score") so the
+ * model can correct the call.
+ */
+
+export interface JsonSchema {
+  type?: string | readonly string[];
+  enum?: readonly unknown[];
+  minimum?: number;
+  maximum?: number;
+  pattern?: string;
+  items?: JsonSchema;
+  properties?: { readonly [key: string]: JsonSchema };
+  required?: readonly string[];
+  additionalProperties?: boolean;
+}
+
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+function matchesType(type: string, value: unknown): boolean {
+  switch (type) {
+    case 'string':
+      return typeof value === 'string';
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'integer':
+      return typeof value === 'number' && Number.isInteger(value);
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return typeof value === 'object' && value !== null && !Array.isArray(value);
+    case 'null':
+      return value === null;
+    default:
+      return true;
+  }
+}
+
+/**
+ * Short description of a value for error messages, e.g. `string "seven"`
+ */
+function describe(value: unknown): string {
+  if (value === null) {
+    return 'null';
+  }
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+  if (typeof value === 'string') {
+    return `string ${JSON.stringify(value.length > 40 ? `${value.slice(0, 40)}…` : value)}`;
+  }
+  if (typeof value === 'number' || typeof value === 'boolean') {
+    return `${typeof value} ${value}`;
+  }
+  return typeof value;
+}
+
+function joinTypes(types: readonly string[]): string {
+  return types.length > 1 ? `${types.slice(0, -1).join(', ')} or ${types[types.length - 1]}` : types[0];
+}
+
+/**
+ * Validate a value against a schema; returns every problem found (empty when valid)
+ */
+export function validateSchema(schema: JsonSchema, value: unknown, path: string = ''): FieldError[] {
+  const field = path || 'arguments';
+  const errors: FieldError[] = [];
+
+  if (schema.type !== undefined) {
+    const types = typeof schema.type === 'string' ? [schema.type] : schema.type;
+    if (!types.some(t => matchesType(t, value))) {
+      const article = /^[aeiou]/.test(types[0]) ? 'an' : 'a';
+      return [{ field, message: `must be ${article} ${joinTypes(types)} (got ${describe(value)})` }];
+    }
+  }
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    errors.push({ field, message: `must be one of ${schema.enum.map(v => JSON.stringify(v)).join(', ')} (got ${describe(value)})` });
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push({ field, message: `must be >= ${schema.minimum} (got ${value})` });
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push({ field, message: `must be <= ${schema.maximum} (got ${value})` });
+    }
+  }
+
+  if (typeof value === 'string' && schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) {
+    errors.push({ field, message: `must match ${schema.pattern} (got ${describe(value)})` });
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, i) => errors.push(...validateSchema(schema.items!, item, `${path}[${i}]`)));
+  }
+
+  if (matchesType('object', value) && (schema.properties || schema.required)) {
+    const record = value as Record<string, unknown>;
+    const properties = schema.properties ?? {};
+    const prefix = path ? `${path}.` : '';
+
+    for (const name of schema.required ?? []) {
+      if (record[name] === undefined) {
+        errors.push({ field: `${prefix}${name}`, message: 'is required' });
+      }
+    }
+
+    for (const [name, item] of Object.entries(record)) {
+      if (item === undefined) {
+        continue;
+      }
+      const propertySchema = properties[name];
+      if (propertySchema) {
+        errors.push(...validateSchema(propertySchema, item, `${prefix}${name}`));
+      } else if (schema.additionalProperties === false) {
+        errors.push({ field: `${prefix}${name}`, message: `is not a known argument (allowed: ${Object.keys(properties).join(', ')})` });
+      }
+    }
+  }
+
+  return errors;
+}
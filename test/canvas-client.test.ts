@@ -0,0 +1,161 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { CanvasClient } from '../src/canvas-client.js';
+
+const BASE_URL = 'https://canvas.test';
+const DAY = 24 * 60 * 60 * 1000;
+
+interface FixtureAssignment {
+  id: number;
+  name: string;
+  due_at: string | null;
+  points_possible: number;
+  submission: { workflow_state: string; submitted_at: string | null; score: number | null; missing: boolean; late: boolean };
+  /** In an earlier grading period (GraphQL only returns it with gradingPeriodId: null) */
+  earlier_period?: boolean;
+}
+
+function days(offset: number): string {
+  return new Date(Date.now() + offset * DAY).toISOString();
+}
+
+function unsubmitted(missing: boolean) {
+  return { workflow_state: 'unsubmitted', submitted_at: null, score: null, missing, late: false };
+}
+
+function graded(score: number, late = false) {
+  return { workflow_state: 'graded', submitted_at: days(-12), score, missing: false, late };
+}
+
+const COURSES = [
+  { id: 101, name: 'Biology', course_code: 'BIO', enrollment_state: 'active' },
+  { id: 102, name: 'History', course_code: 'HIST', enrollment_state: 'active' },
+];
+
+const ASSIGNMENTS: Record<number, FixtureAssignment[]> = {
+  101: [
+    { id: 1, name: 'Lab 1', due_at: days(-10), points_possible: 10, submission: graded(9) },
+    { id: 2, name: 'Lab 2', due_at: days(-3), points_possible: 10, submission: unsubmitted(true) },
+    { id: 3, name: 'Lab 3', due_at: days(4), points_possible: 10, submission: unsubmitted(false) },
+    { id: 4, name: 'Midterm', due_at: days(-60), points_possible: 50, submission: graded(41, true), earlier_period: true },
+    { id: 5, name: 'Reading', due_at: null, points_possible: 0, submission: unsubmitted(false) },
+  ],
+  102: [
+    { id: 6, name: 'Essay', due_at: days(2), points_possible: 20, submission: { workflow_state: 'submitted', submitted_at: days(-1), score: null, missing: false, late: false } },
+    { id: 7, name: 'Old essay', due_at: days(-90), points_possible: 20, submission: unsubmitted(true), earlier_period: true },
+  ],
+};
+
+/**
+ * Course node as Canvas GraphQL returns it, honouring the grading period and submission state
+ * filters of the query the way Canvas does (current period and submitted states by default)
+ */
+function graphqlCourse(id: number, query: string) {
+  const allPeriods = /gradingPeriodId:\s*null/.test(query);
+  const states = /states:\s*\[([^\]]*)\]/.exec(query)?.[1].split(/[\s,]+/) ?? ['submitted', 'pending_review', 'graded'];
+  return {
+    _id: String(id),
+    assignmentsConnection: {
+      nodes: ASSIGNMENTS[id].filter(a => allPeriods || !a.earlier_period).map(a => ({
+        _id: String(a.id),
+        name: a.name,
+        dueAt: a.due_at,
+        unlockAt: null,
+        lockAt: null,
+        pointsPossible: a.points_possible,
+        submissionTypes: ['online_upload'],
+        submissionsConnection: {
+          nodes: states.includes(a.submission.workflow_state)
+            ? [{ state: a.submission.workflow_state, submittedAt: a.submission.submitted_at, score: a.submission.score, missing: a.submission.missing, late: a.submission.late }]
+            : [],
+        },
+      })),
+      pageInfo: { hasNextPage: false, endCursor: null },
+    },
+  };
+}
+
+function json(data: unknown): Response {
+  return new Response(JSON.stringify(data), { status: 200, headers: { 'Content-Type': 'application/json' } });
+}
+
+describe('CanvasClient assignment backends', () => {
+  const realFetch = globalThis.fetch;
+  let requests: string[];
+  let graphqlResponse: ((body: { query: string; variables: Record<string, unknown> }) => unknown) | null;
+
+  beforeEach(() => {
+    requests = [];
+    graphqlResponse = null;
+    globalThis.fetch = (async (input: string | URL | Request, init?: RequestInit) => {
+      const url = new URL(String(input));
+      requests.push(url.pathname);
+
+      if (url.pathname === '/api/graphql') {
+        const body = JSON.parse(String(init?.body));
+        if (graphqlResponse) {
+          return json(graphqlResponse(body));
+        }
+        const data: Record<string, unknown> = {};
+        for (const [name, value] of Object.entries(body.variables)) {
+          if (/^c\d+$/.test(name)) {
+            data[name] = graphqlCourse(Number(value), body.query);
+          }
+        }
+        return json({ data });
+      }
+
+      const path = url.pathname.replace(/^\/api\/v1/, '');
+      if (path === '/users/self/observees') {
+        return json([]);
+      }
+      if (path === '/courses') {
+        return json(COURSES);
+      }
+      const match = /^\/courses\/(\d+)\/assignments$/.exec(path);
+      if (match) {
+        return json(ASSIGNMENTS[Number(match[1])].map(({ earlier_period, ...a }) => ({
+          ...a,
+          unlock_at: null,
+          lock_at: null,
+          submission_types: ['online_upload'],
+        })));
+      }
+      return new Response('Not Found', { status: 404 });
+    }) as typeof fetch;
+  });
+
+  afterEach(() => {
+    globalThis.fetch = realFetch;
+  });
+
+  it('lists the same upcoming assignments over GraphQL and REST', async () => {
+    const rest = await new CanvasClient({ baseUrl: BASE_URL, apiToken: 'token', graphqlEnabled: false }).listUpcoming(30, true);
+    assert.ok(!requests.includes('/api/graphql'));
+
+    requests = [];
+    const graphql = await new CanvasClient({ baseUrl: BASE_URL, apiToken: 'token' }).listUpcoming(30, true);
+    assert.ok(requests.includes('/api/graphql'));
+    assert.ok(!requests.some(p => p.endsWith('/assignments')), 'GraphQL client fell back to REST');
+
+    assert.deepEqual(graphql, rest);
+    assert.deepEqual(
+      rest.assignments.map(a => [a.assignment_id, a.status]),
+      [[7, 'missing'], [4, 'submitted'], [1, 'submitted'], [2, 'missing'], [6, 'submitted'], [3, 'unsubmitted']]
+    );
+  });
+
+  it('falls back to REST and does not cache GraphQL responses without data', async () => {
+    const client = new CanvasClient({ baseUrl: BASE_URL, apiToken: 'token' });
+
+    graphqlResponse = () => ({ errors: [{ message: 'temporarily unavailable' }] });
+    const first = await client.listUpcoming(30, true);
+    assert.ok(requests.some(p => p.endsWith('/assignments')));
+
+    graphqlResponse = null;
+    requests = [];
+    const second = await client.listUpcoming(30, true);
+    assert.ok(requests.includes('/api/graphql'), 'errors-only GraphQL response was served from cache');
+    assert.deepEqual(second, first);
+  });
+});
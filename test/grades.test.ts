@@ -0,0 +1,132 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { computeCourseScore, scoreGroup, type GradeGroup, type GradeItem } from '../src/grades.js';
+
+let nextId = 1;
+
+function item(score: number | null, points_possible: number, extra: Partial<GradeItem> = {}): GradeItem {
+  const id = nextId++;
+  return { id, name: `Item ${id}`, score, points_possible, excused: false, omitted: false, ...extra };
+}
+
+function group(items: GradeItem[], rules: Partial<GradeGroup['rules']> = {}, weight = 0): GradeGroup {
+  return {
+    id: nextId++,
+    name: 'Group',
+    weight,
+    rules: { drop_lowest: 0, drop_highest: 0, never_drop: [], ...rules },
+    items,
+  };
+}
+
+function approx(actual: number | null, expected: number) {
+  assert.ok(actual !== null && Math.abs(actual - expected) < 1e-9, `expected ${expected}, got ${actual}`);
+}
+
+describe('scoreGroup', () => {
+  it('sums graded items', () => {
+    const result = scoreGroup(group([item(8, 10), item(15, 20)]));
+    assert.equal(result.earned, 23);
+    assert.equal(result.possible, 30);
+    approx(result.percent, (23 / 30) * 100);
+    assert.deepEqual(result.dropped, []);
+  });
+
+  it('skips ungraded, excused and omitted items', () => {
+    const result = scoreGroup(group([
+      item(9, 10),
+      item(null, 10),
+      item(0, 10, { excused: true }),
+      item(0, 10, { omitted: true }),
+    ]));
+    assert.equal(result.earned, 9);
+    assert.equal(result.possible, 10);
+  });
+
+  it('returns a null percent when nothing is graded', () => {
+    const result = scoreGroup(group([item(null, 10)]));
+    assert.equal(result.percent, null);
+  });
+
+  it('drops the set that maximizes the kept score, not the lowest items one by one', () => {
+    const a = item(0, 2);
+    const b = item(8, 18);
+    const c = item(4, 10);
+    const d = item(5, 7);
+    const result = scoreGroup(group([a, b, c, d], { drop_lowest: 2 }));
+    approx(result.percent, (5 / 9) * 100);
+    assert.deepEqual(result.dropped.sort(), [b.id, c.id].sort());
+  });
+
+  it('drops the set that minimizes the kept score for drop_highest', () => {
+    const a = item(10, 10);
+    const b = item(1, 2);
+    const c = item(15, 30);
+    const result = scoreGroup(group([a, b, c], { drop_highest: 1 }));
+    assert.deepEqual(result.dropped, [a.id]);
+    approx(result.percent, (16 / 32) * 100);
+  });
+
+  it('applies drop_lowest before drop_highest', () => {
+    const items = [item(2, 10), item(5, 10), item(7, 10), item(10, 10)];
+    const result = scoreGroup(group(items, { drop_lowest: 1, drop_highest: 1 }));
+    assert.deepEqual(result.dropped, [items[0].id, items[3].id]);
+    approx(result.percent, 60);
+  });
+
+  it('never drops never_drop items', () => {
+    const low = item(1, 10);
+    const other = item(5, 10);
+    const result = scoreGroup(group([low, other, item(9, 10)], { drop_lowest: 1, never_drop: [low.id] }));
+    assert.deepEqual(result.dropped, [other.id]);
+    assert.equal(result.earned, 10);
+  });
+
+  it('always keeps one item', () => {
+    const result = scoreGroup(group([item(3, 10), item(6, 10)], { drop_lowest: 5 }));
+    assert.equal(result.dropped.length, 1);
+    assert.equal(result.earned, 6);
+  });
+
+  it('drops by raw score when no item has points possible', () => {
+    const low = item(1, 0);
+    const result = scoreGroup(group([low, item(3, 0)], { drop_lowest: 1 }));
+    assert.deepEqual(result.dropped, [low.id]);
+    assert.equal(result.percent, null);
+  });
+});
+
+describe('computeCourseScore', () => {
+  it('returns null when nothing is graded', () => {
+    const result = computeCourseScore([group([item(null, 10)])], false);
+    assert.equal(result.score, null);
+    assert.equal(result.groups[0].contribution, null);
+  });
+
+  it('uses total points for unweighted courses', () => {
+    const result = computeCourseScore([group([item(8, 10)]), group([item(20, 40)])], false);
+    approx(result.score, 56);
+    approx(result.groups[0].contribution, 16);
+    approx(result.groups[1].points_lost, 40);
+  });
+
+  it('weights group percentages and renormalizes over graded groups', () => {
+    const result = computeCourseScore([
+      group([item(9, 10)], {}, 40),
+      group([item(30, 40)], {}, 40),
+      group([item(null, 100)], {}, 20),
+    ], true);
+    approx(result.score, (40 * 90 + 40 * 75) / 80);
+    approx(result.groups[0].contribution, 45);
+    approx(result.groups[1].points_lost, 12.5);
+    assert.equal(result.groups[2].contribution, null);
+  });
+
+  it('applies drop rules before weighting', () => {
+    const result = computeCourseScore([
+      group([item(0, 2), item(8, 18), item(4, 10), item(5, 7)], { drop_lowest: 2 }, 50),
+      group([item(10, 10)], {}, 50),
+    ], true);
+    approx(result.score, ((5 / 9) * 100 + 100) / 2);
+  });
+});
@@ -0,0 +1,21 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { sliceContent } from '../src/html.js';
+
+const TEXT = Array.from({ length: 40 }, (_, i) => `Line ${i} of the page body`).join('\n');
+
+describe('sliceContent', () => {
+  it('continues from next_cursor', () => {
+    const first = sliceContent(TEXT, undefined, 500);
+    assert.equal(first.truncated, true);
+    assert.ok(first.next_cursor);
+    const second = sliceContent(TEXT, first.next_cursor, 500);
+    assert.ok(TEXT.slice(Number(first.next_cursor)).trim().startsWith(second.content));
+  });
+
+  for (const cursor of ['12abc', '1e3', '-1', ' 12', '1.5', '99999']) {
+    it(`rejects cursor ${JSON.stringify(cursor)} as invalid_arguments`, () => {
+      assert.throws(() => sliceContent(TEXT, cursor, 500), (err: any) => err.code === 'invalid_arguments');
+    });
+  }
+});
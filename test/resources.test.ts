@@ -0,0 +1,21 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { CanvasClient } from '../src/canvas-client.js';
+import { CanvasProfiles } from '../src/profiles.js';
+import { readResource } from '../src/resources.js';
+
+const baseUrl = 'https://canvas.test';
+const profiles = new CanvasProfiles([{ name: 'default', baseUrl, client: new CanvasClient({ baseUrl, apiToken: 'token' }) }]);
+
+describe('readResource', () => {
+  for (const uri of [
+    'canvas://courses/1/pages/%E0%A4%A',
+    'canvas://courses/1/unknown',
+    'canvas://users/1',
+    'not a uri',
+  ]) {
+    it(`rejects ${uri} as resource_not_found`, async () => {
+      await assert.rejects(readResource(uri, profiles), (err: any) => err.code === 'resource_not_found');
+    });
+  }
+});
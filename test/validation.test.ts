@@ -0,0 +1,91 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { CanvasClient } from '../src/canvas-client.js';
+import { CanvasProfiles } from '../src/profiles.js';
+import { handleToolCall, TOOLS } from '../src/tools.js';
+import { validateSchema, type JsonSchema } from '../src/validation.js';
+
+function schemaOf(toolName: string): JsonSchema {
+  const tool = TOOLS.find(t => t.name === toolName);
+  assert.ok(tool, `unknown tool ${toolName}`);
+  return tool.inputSchema;
+}
+
+// Tool name, arguments and the field errors validateSchema must report for them
+const INVALID_CALLS: Array<[string, Record<string, unknown>, Array<{ field: string; message: string }>]> = [
+  ['list_upcoming', { days: 'seven' }, [
+    { field: 'days', message: 'must be an integer (got string "seven")' },
+  ]],
+  ['list_upcoming', { days: -3 }, [
+    { field: 'days', message: 'must be >= 1 (got -3)' },
+  ]],
+  ['list_assignments', { course_id: 101, status_filter: 'mising' }, [
+    { field: 'status_filter', message: 'must be one of "all", "missing", "unsubmitted", "submitted" (got string "mising")' },
+  ]],
+  ['list_courses', { verbose: true }, [
+    { field: 'verbose', message: 'is not a known argument (allowed: student_id, profile, bypass_cache)' },
+  ]],
+  ['list_upcoming', { course_ids: ['101', 'abc'] }, [
+    { field: 'course_ids[1]', message: 'must match ^[1-9][0-9]*$ (got string "abc")' },
+  ]],
+  ['list_assignments', { course_id: '0' }, [
+    { field: 'course_id', message: 'must match ^[1-9][0-9]*$ (got string "0")' },
+  ]],
+  ['calculate_what_if', { course_id: 101, hypothetical_scores: [{ assignment_id: 5, score: -1 }, { assignment_id: 6 }] }, [
+    { field: 'hypothetical_scores[0].score', message: 'must be >= 0 (got -1)' },
+    { field: 'hypothetical_scores[1].score', message: 'is required' },
+  ]],
+];
+
+describe('validateSchema', () => {
+  for (const [toolName, args, expected] of INVALID_CALLS) {
+    it(`reports ${expected.map(e => e.field).join(', ')} for ${toolName}`, () => {
+      assert.deepEqual(validateSchema(schemaOf(toolName), args), expected);
+    });
+  }
+
+  it('accepts valid arguments', () => {
+    assert.deepEqual(validateSchema(schemaOf('list_upcoming'), { days: 7, course_ids: [101, '102'] }), []);
+    assert.deepEqual(validateSchema(schemaOf('calculate_what_if'), {
+      course_id: '101',
+      hypothetical_scores: [{ assignment_id: 5, score: 8.5 }],
+    }), []);
+  });
+
+  it('reports missing required arguments', () => {
+    assert.deepEqual(validateSchema(schemaOf('list_assignments'), {}), [{ field: 'course_id', message: 'is required' }]);
+  });
+});
+
+describe('handleToolCall argument validation', () => {
+  const realFetch = globalThis.fetch;
+  let requests: string[];
+  let profiles: CanvasProfiles;
+
+  beforeEach(() => {
+    requests = [];
+    globalThis.fetch = (async (input: string | URL | Request) => {
+      requests.push(String(input));
+      return new Response('[]', { status: 200, headers: { 'Content-Type': 'application/json' } });
+    }) as typeof fetch;
+    const baseUrl = 'https://canvas.test';
+    profiles = new CanvasProfiles([{ name: 'default', baseUrl, client: new CanvasClient({ baseUrl, apiToken: 'token' }) }]);
+  });
+
+  afterEach(() => {
+    globalThis.fetch = realFetch;
+  });
+
+  for (const [toolName, args, expected] of INVALID_CALLS) {
+    it(`rejects ${expected.map(e => e.field).join(', ')} for ${toolName} before calling Canvas`, async () => {
+      await assert.rejects(handleToolCall(toolName, args, profiles), (err: any) => {
+        assert.equal(err.code, 'invalid_arguments');
+        for (const { field, message } of expected) {
+          assert.ok(err.message.includes(`${field} ${message}`), err.message);
+        }
+        return true;
+      });
+      assert.deepEqual(requests, []);
+    });
+  }
+});